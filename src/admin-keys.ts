@@ -0,0 +1,144 @@
+// src/admin-keys.ts
+//
+// Issues, rotates, revokes and lists per-clinician API keys. The running server picks up changes
+// on its next request.
+//
+//   npm run keys -- issue --tenant <id> --owner <name> [--scopes read,write] [--expires-days <n>]
+//   npm run keys -- rotate <key id> [--grace-hours <n>] [--expires-days <n>]
+//   npm run keys -- revoke <key id>
+//   npm run keys -- list [--tenant <id>]
+
+import dotenv from 'dotenv';
+import { API_KEY_SCOPES, ApiKeyStore, type ApiKeyRecord, type ApiKeyScope } from './api-key-store';
+import { TenantRegistry } from './tenants';
+
+dotenv.config();
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const [command, ...rest] = process.argv.slice(2);
+let positional: string[] = [];
+let options: { [name: string]: string } = {};
+
+try {
+    // In here, so that a bad option or keys file is reported like any other error
+    ({ positional, options } = parseArgs(rest));
+    const store = new ApiKeyStore(process.env.API_KEYS_PATH || 'data/api-keys.json');
+
+    switch (command) {
+        case 'issue': {
+            const tenant = requireOption('tenant');
+            if (!TenantRegistry.fromEnv().get(tenant)) throw new Error(`Unknown tenant '${tenant}'.`);
+            const { record, key } = store.issue(tenant, requireOption('owner'), parseScopes(options.scopes), expiryFromOptions());
+            printKey(record, key);
+            break;
+        }
+        case 'rotate': {
+            const graceHours = Number(options['grace-hours'] ?? 24);
+            if (!(graceHours >= 0)) throw new Error('--grace-hours must be a number of hours.');
+            const { record, key } = store.rotate(requireKeyId(), graceHours * 60 * 60 * 1000, expiryFromOptions());
+            printKey(record, key);
+            break;
+        }
+        case 'revoke': {
+            const record = store.revoke(requireKeyId());
+            console.log(`Revoked API key ${record.id} of ${record.owner} (tenant '${record.tenant}').`);
+            break;
+        }
+        case 'list': {
+            const records = store.list().filter(r => !options.tenant || r.tenant === options.tenant);
+            console.table(records.map(r => ({
+                id: r.id,
+                tenant: r.tenant,
+                owner: r.owner,
+                scopes: r.scopes.join(','),
+                status: statusOf(r),
+                expires_at: r.expires_at || '-',
+                last_used_at: r.last_used_at || '-',
+            })));
+            break;
+        }
+        default:
+            throw new Error(`Unknown command '${command ?? ''}'. Expected one of: issue, rotate, revoke, list`);
+    }
+} catch (error) {
+    console.error((error as Error).message);
+    process.exit(1);
+}
+
+/**
+ * Splits "--name value" options from the positional arguments.
+ * @private
+ */
+function parseArgs(args: string[]): { positional: string[], options: { [name: string]: string } } {
+    const positional: string[] = [];
+    const options: { [name: string]: string } = {};
+    for (let i = 0; i < args.length; i++) {
+        if (args[i].startsWith('--')) {
+            const value = args[i + 1];
+            if (value === undefined || value.startsWith('--')) throw new Error(`${args[i]} needs a value.`);
+            options[args[i].slice(2)] = value;
+            i++;
+        } else {
+            positional.push(args[i]);
+        }
+    }
+    return { positional, options };
+}
+
+/**
+ * @private
+ */
+function requireOption(name: string): string {
+    if (!options[name]) throw new Error(`--${name} is required.`);
+    return options[name];
+}
+
+/**
+ * @private
+ */
+function requireKeyId(): string {
+    if (!positional[0]) throw new Error(`Usage: npm run keys -- ${command} <key id>`);
+    return positional[0];
+}
+
+/**
+ * Scopes such as "read,write". Keys are read-only unless write is asked for.
+ * @private
+ */
+function parseScopes(scopes: string | undefined): ApiKeyScope[] {
+    const parsed = (scopes || 'read').split(',').map(s => s.trim()).filter(Boolean);
+    const unknown = parsed.filter(s => !API_KEY_SCOPES.includes(s as ApiKeyScope));
+    if (unknown.length > 0 || parsed.length === 0) {
+        throw new Error(`Invalid scopes '${scopes}'. Expected a comma separated list of: ${API_KEY_SCOPES.join(', ')}`);
+    }
+    return [...new Set(parsed)] as ApiKeyScope[];
+}
+
+/**
+ * @private
+ */
+function expiryFromOptions(): Date | null {
+    if (options['expires-days'] === undefined) return null;
+    const days = Number(options['expires-days']);
+    if (!(days > 0)) throw new Error('--expires-days must be a positive number of days.');
+    return new Date(Date.now() + days * DAY_MS);
+}
+
+/**
+ * @private
+ */
+function statusOf(record: ApiKeyRecord): string {
+    if (record.revoked_at) return 'revoked';
+    if (record.expires_at && Date.parse(record.expires_at) <= Date.now()) return 'expired';
+    return 'active';
+}
+
+/**
+ * @private
+ */
+function printKey(record: ApiKeyRecord, key: string) {
+    console.log(`API key ${record.id} for ${record.owner} (tenant '${record.tenant}', scopes: ${record.scopes.join(', ')}, expires: ${record.expires_at || 'never'})`);
+    console.log(`\n    ${key}\n`);
+    console.log('Store it now; it is not kept and cannot be shown again.');
+}
@@ -0,0 +1,73 @@
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { test } from 'node:test';
+import { ApiKeyStore, hasScope } from './api-key-store';
+
+const tempFile = () => path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'api-keys-')), 'api-keys.json');
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+test('a key is only stored as its hash and authenticates its owner', () => {
+    const filePath = tempFile();
+    const store = new ApiKeyStore(filePath);
+    const { record, key } = store.issue('clinic-a', 'amina@clinic.example', ['read', 'write'], null);
+
+    assert.ok(!fs.readFileSync(filePath, 'utf8').includes(key.split('_')[2]));
+    assert.deepEqual(store.authenticate(key), { key_id: record.id, tenant: 'clinic-a', owner: 'amina@clinic.example', scopes: ['read', 'write'] });
+
+    // The same id with another secret
+    assert.equal(store.authenticate(`${key.slice(0, -1)}${key.endsWith('A') ? 'B' : 'A'}`), undefined);
+    assert.equal(store.authenticate('not a key'), undefined);
+});
+
+test('a revoked key is rejected', () => {
+    const store = new ApiKeyStore(tempFile());
+    const { record, key } = store.issue('clinic-a', 'amina@clinic.example', ['read'], null);
+
+    store.revoke(record.id);
+    assert.equal(store.authenticate(key), undefined);
+    assert.throws(() => store.rotate(record.id, 0, null), /revoked/);
+});
+
+test('an expired key is rejected', () => {
+    const store = new ApiKeyStore(tempFile());
+    const { key } = store.issue('clinic-a', 'amina@clinic.example', ['read'], new Date(Date.now() - 1000));
+
+    assert.equal(store.authenticate(key), undefined);
+});
+
+test('an old key stops working after the grace period', async () => {
+    const store = new ApiKeyStore(tempFile());
+    const { record, key: oldKey } = store.issue('clinic-a', 'amina@clinic.example', ['read', 'write'], null);
+
+    const { record: replacement, key: newKey } = store.rotate(record.id, 100, null);
+    assert.equal(replacement.owner, 'amina@clinic.example');
+    assert.deepEqual(replacement.scopes, ['read', 'write']);
+    assert.ok(store.authenticate(oldKey));
+
+    await wait(150);
+    assert.equal(store.authenticate(oldKey), undefined);
+    assert.equal(store.authenticate(newKey)?.key_id, replacement.id);
+});
+
+test('a read-scoped key is refused for write', () => {
+    const store = new ApiKeyStore(tempFile());
+    const { key } = store.issue('clinic-a', 'amina@clinic.example', ['read'], null);
+    const caller = store.authenticate(key)!;
+
+    assert.equal(hasScope(caller, 'read'), true);
+    assert.equal(hasScope(caller, 'write'), false);
+    assert.equal(hasScope(caller, 'admin'), false);
+});
+
+test('changes made by another process are picked up', () => {
+    const filePath = tempFile();
+    const server = new ApiKeyStore(filePath);
+    const { record, key } = new ApiKeyStore(filePath).issue('clinic-a', 'amina@clinic.example', ['read'], null);
+    assert.ok(server.authenticate(key));
+
+    new ApiKeyStore(filePath).revoke(record.id);
+    assert.equal(server.authenticate(key), undefined);
+});
@@ -0,0 +1,176 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+
+export const API_KEY_SCOPES = ['read', 'write', 'admin'] as const;
+
+// read: patient lists, summaries, encounters and templates. write: POST /notes. admin: the audit log.
+export type ApiKeyScope = typeof API_KEY_SCOPES[number];
+
+/**
+ * A stored API key. Only the SHA-256 of the secret is kept.
+ */
+export type ApiKeyRecord = {
+    id: string;
+    tenant: string;
+    owner: string;
+    scopes: ApiKeyScope[];
+    key_hash: string;
+    created_at: string;
+    expires_at: string | null;
+    last_used_at: string | null;
+    revoked_at: string | null;
+};
+
+/**
+ * Who is calling, as established from their API key.
+ */
+export type ApiCaller = {
+    key_id: string | null;
+    tenant: string;
+    owner: string;
+    scopes: ApiKeyScope[];
+};
+
+// Keys look like "mk_<id>_<secret>", so the record can be found without comparing every hash
+const KEY_PATTERN = /^mk_([0-9a-f]{12})_([A-Za-z0-9_-]{43})$/;
+
+// last_used_at is written at most this often per key
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+/**
+ * Per-clinician API keys, kept in a JSON file. The admin commands (`npm run keys`) edit the file
+ * and the server picks up their changes on the next request, without a restart.
+ */
+export class ApiKeyStore {
+    private records: { [id: string]: ApiKeyRecord } = {};
+    private loadedMtimeMs = -1;
+
+    constructor(private readonly filePath: string) {
+        this.reloadIfChanged();
+    }
+
+    /**
+     * The caller for a bearer token, or undefined if the key is unknown, revoked or expired.
+     */
+    authenticate(token: string): ApiCaller | undefined {
+        const match = token.match(KEY_PATTERN);
+        if (!match) return undefined;
+
+        this.reloadIfChanged();
+        const record = this.records[match[1]];
+        if (!record || !isSameHash(record.key_hash, hashApiKey(token))) return undefined;
+        if (record.revoked_at || (record.expires_at && Date.parse(record.expires_at) <= Date.now())) return undefined;
+
+        if (!record.last_used_at || Date.now() - Date.parse(record.last_used_at) > LAST_USED_RESOLUTION_MS) {
+            this.update(record.id, r => ({ ...r, last_used_at: new Date().toISOString() }));
+        }
+
+        return { key_id: record.id, tenant: record.tenant, owner: record.owner, scopes: record.scopes };
+    }
+
+    /**
+     * Creates a key and returns its secret. The secret is not stored and cannot be shown again.
+     */
+    issue(tenant: string, owner: string, scopes: ApiKeyScope[], expiresAt: Date | null): { record: ApiKeyRecord, key: string } {
+        const id = crypto.randomBytes(6).toString('hex');
+        const key = `mk_${id}_${crypto.randomBytes(32).toString('base64url')}`;
+        const record: ApiKeyRecord = {
+            id,
+            tenant,
+            owner,
+            scopes,
+            key_hash: hashApiKey(key),
+            created_at: new Date().toISOString(),
+            expires_at: expiresAt ? expiresAt.toISOString() : null,
+            last_used_at: null,
+            revoked_at: null,
+        };
+        this.update(id, () => record);
+        return { record, key };
+    }
+
+    /**
+     * Issues a replacement for a key with the same owner, tenant and scopes. The old key keeps
+     * working for `graceMs` so clients can switch over, then expires.
+     */
+    rotate(id: string, graceMs: number, expiresAt: Date | null): { record: ApiKeyRecord, key: string } {
+        const old = this.get(id);
+        if (old.revoked_at) throw new Error(`API key ${id} is revoked and cannot be rotated.`);
+
+        const oldExpiry = new Date(Date.now() + graceMs);
+        this.update(id, r => ({ ...r, expires_at: r.expires_at && Date.parse(r.expires_at) < oldExpiry.getTime() ? r.expires_at : oldExpiry.toISOString() }));
+        return this.issue(old.tenant, old.owner, old.scopes, expiresAt ?? (old.expires_at ? new Date(old.expires_at) : null));
+    }
+
+    revoke(id: string): ApiKeyRecord {
+        this.get(id);
+        return this.update(id, r => ({ ...r, revoked_at: r.revoked_at || new Date().toISOString() }));
+    }
+
+    list(): ApiKeyRecord[] {
+        this.reloadIfChanged();
+        return Object.values(this.records).sort((a, b) => a.created_at.localeCompare(b.created_at));
+    }
+
+    /**
+     * @private
+     */
+    private get(id: string): ApiKeyRecord {
+        this.reloadIfChanged();
+        const record = this.records[id];
+        if (!record) throw new Error(`No API key with id ${id}.`);
+        return record;
+    }
+
+    /**
+     * Re-reads the file before changing one record, so that the server and the admin commands
+     * do not overwrite each other's changes, then writes it atomically.
+     * @private
+     */
+    private update(id: string, change: (record: ApiKeyRecord) => ApiKeyRecord): ApiKeyRecord {
+        this.reloadIfChanged();
+        this.records[id] = change(this.records[id]);
+
+        fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+        const tempPath = `${this.filePath}.${process.pid}.tmp`;
+        fs.writeFileSync(tempPath, JSON.stringify(this.records, null, 2), { mode: 0o600 });
+        fs.renameSync(tempPath, this.filePath);
+        this.loadedMtimeMs = fs.statSync(this.filePath).mtimeMs;
+
+        return this.records[id];
+    }
+
+    /**
+     * @private
+     */
+    private reloadIfChanged() {
+        if (!fs.existsSync(this.filePath)) return;
+
+        const mtimeMs = fs.statSync(this.filePath).mtimeMs;
+        if (mtimeMs === this.loadedMtimeMs) return;
+
+        this.records = JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+        this.loadedMtimeMs = mtimeMs;
+    }
+}
+
+/**
+ * Whether the caller's key may be used for an endpoint that needs `scope`.
+ */
+export function hasScope(caller: ApiCaller, scope: ApiKeyScope): boolean {
+    return caller.scopes.includes(scope);
+}
+
+export function hashApiKey(key: string): string {
+    return crypto.createHash('sha256').update(key).digest('hex');
+}
+
+/**
+ * Compares two hex digests in constant time.
+ */
+export function isSameHash(a: string, b: string): boolean {
+    const bufferA = Buffer.from(a, 'hex');
+    const bufferB = Buffer.from(b, 'hex');
+    return bufferA.length === bufferB.length && crypto.timingSafeEqual(bufferA, bufferB);
+}
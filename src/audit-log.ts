@@ -0,0 +1,81 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { type ResourceChange, type RollbackReport } from './compensation';
+
+/**
+ * How a note write ended: written, written without some of its diagnoses or medications, answered
+ * from the idempotency store, refused before anything was written, undone after a failure, or failed otherwise.
+ */
+export type AuditOutcome = 'success' | 'partial' | 'replayed' | 'rejected' | 'rolled_back' | 'failed';
+
+/**
+ * One POST /notes request, as kept in the audit log.
+ */
+export type AuditEntry = {
+    id: string;
+    timestamp: string;
+    tenant: string;
+    caller: { key_id: string | null, owner: string, mercurie_user: string | null };
+    patient_id: string | null;
+    encounter_id: string | null;
+    request_hash: string;
+    outcome: AuditOutcome;
+    status: number;
+    error: string | null;
+    changes: ResourceChange[];
+    rollback: RollbackReport | null;
+};
+
+export type AuditQuery = {
+    tenant: string;
+    patient_id?: string;
+    encounter_id?: string;
+    // ISO dates or timestamps, inclusive
+    from?: string;
+    to?: string;
+    limit?: number;
+};
+
+/**
+ * An append-only log of every chart write, one JSON entry per line. Entries are never
+ * rewritten or pruned by the adapter.
+ */
+export class AuditLog {
+    constructor(private readonly filePath: string) {
+        fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    }
+
+    append(entry: Omit<AuditEntry, 'id' | 'timestamp'>): AuditEntry {
+        const full: AuditEntry = { id: crypto.randomUUID(), timestamp: new Date().toISOString(), ...entry };
+        fs.appendFileSync(this.filePath, JSON.stringify(full) + '\n', { mode: 0o600 });
+        return full;
+    }
+
+    /**
+     * The tenant's entries matching the query, newest first. An encounter matches the visit
+     * the note was written to as well as any encounter created or changed on the way.
+     */
+    query(query: AuditQuery): AuditEntry[] {
+        if (!fs.existsSync(this.filePath)) return [];
+
+        const from = query.from ? Date.parse(query.from) : -Infinity;
+        // A bare date covers the whole day
+        const to = query.to ? Date.parse(query.to) + (/^\d{4}-\d{2}-\d{2}$/.test(query.to) ? 24 * 60 * 60 * 1000 - 1 : 0) : Infinity;
+
+        const matches = fs.readFileSync(this.filePath, 'utf8')
+            .split('\n')
+            .filter(Boolean)
+            .map(line => JSON.parse(line) as AuditEntry)
+            .filter(entry => entry.tenant === query.tenant)
+            .filter(entry => !query.patient_id || entry.patient_id === query.patient_id)
+            .filter(entry => !query.encounter_id || entry.encounter_id === query.encounter_id
+                || entry.changes.some(c => c.resource === 'Encounter' && c.id === query.encounter_id))
+            .filter(entry => {
+                const time = Date.parse(entry.timestamp);
+                return time >= from && time <= to;
+            });
+
+        return matches.reverse().slice(0, query.limit);
+    }
+}
@@ -0,0 +1,116 @@
+/**
+ * Outcome of undoing the writes of a failed request.
+ */
+export type RollbackReport = {
+    rolled_back: string[];
+    not_rolled_back: string[];
+};
+
+/**
+ * One OpenMRS resource written while handling a request, as recorded in the audit log.
+ * `resource` is the type as the API names it, e.g. "Encounter" or "order".
+ */
+export type ResourceChange = {
+    action: 'created' | 'updated' | 'deleted';
+    resource: string;
+    id: string;
+    description: string;
+};
+
+/**
+ * Thrown when a multi-step write failed and its earlier steps were compensated.
+ * The report lists what was undone and what is left behind in the chart;
+ * `changes` lists the writes that were made before the failure.
+ */
+export class RollbackError extends Error {
+    constructor(message: string, public readonly report: RollbackReport, public readonly changes: ResourceChange[] = [], options?: { cause?: unknown }) {
+        super(message, options);
+        this.name = 'RollbackError';
+    }
+}
+
+/**
+ * Records how to undo each OpenMRS write made while handling one request,
+ * so that a failure halfway through does not leave a partial chart behind (saga-style compensation).
+ */
+export class CompensationLog {
+    private steps: { description: string, undo: () => Promise<unknown> }[] = [];
+    private writes: ResourceChange[] = [];
+
+    /**
+     * @param runUndo runs each compensation, e.g. to let it past a circuit breaker that the failure opened
+     */
+    constructor(private readonly runUndo: (undo: () => Promise<unknown>) => Promise<unknown> = undo => undo()) {}
+
+    /**
+     * Registers the compensation for a write that has just succeeded, and what the write changed.
+     */
+    record(description: string, undo: () => Promise<unknown>, change: Omit<ResourceChange, 'description'>) {
+        this.steps.push({ description, undo });
+        this.writes.push({ ...change, description });
+    }
+
+    /**
+     * Every write recorded so far, oldest first. Rolled back writes stay listed.
+     */
+    get changes(): ResourceChange[] {
+        return [...this.writes];
+    }
+
+    /**
+     * Runs the writes of one item of a request, such as one drug order. If they fail, only that
+     * item's writes are undone and the error is rethrown, for the caller to report the item as failed
+     * or to fail the whole request. Writes that could not be undone stay listed in `changes`.
+     */
+    async item<T>(write: () => Promise<T>): Promise<T> {
+        const start = this.steps.length;
+        try {
+            return await write();
+        } catch (error) {
+            const steps = this.steps.splice(start);
+            const writes = this.writes.splice(start);
+            const report = await this.undo(steps);
+            this.writes.push(...writes.filter(w => !report.rolled_back.includes(w.description)));
+            throw error;
+        }
+    }
+
+    /**
+     * Runs the compensations newest first. A failing compensation does not stop the others.
+     */
+    async rollback(): Promise<RollbackReport> {
+        const steps = this.steps;
+        this.steps = [];
+        return this.undo(steps);
+    }
+
+    /**
+     * @private
+     */
+    private async undo(steps: { description: string, undo: () => Promise<unknown> }[]): Promise<RollbackReport> {
+        const report: RollbackReport = { rolled_back: [], not_rolled_back: [] };
+
+        for (const step of [...steps].reverse()) {
+            try {
+                await this.runUndo(step.undo);
+                console.log(`-> Rolled back: ${step.description}`);
+                report.rolled_back.push(step.description);
+            } catch (error: any) {
+                const errorDetail = error.response?.data?.error?.message || error.message;
+                console.error(`-> Could not roll back: ${step.description}`, error.response?.data || error.message);
+                report.not_rolled_back.push(`${step.description}: ${errorDetail}`);
+            }
+        }
+
+        return report;
+    }
+
+    /**
+     * Rolls back and wraps the original failure, for use as `throw await log.rollbackAfter(error)`.
+     */
+    async rollbackAfter(error: unknown): Promise<RollbackError> {
+        const message = error instanceof Error ? error.message : "An unknown error occurred.";
+        console.log("Rolling back the writes made for this request...");
+        return new RollbackError(message, await this.rollback(), this.changes, { cause: error });
+    }
+}
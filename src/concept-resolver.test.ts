@@ -0,0 +1,95 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import axios from 'axios';
+import { ConceptNotFoundError, ConceptResolver } from './concept-resolver';
+
+const concept = (uuid: string, display: string, synonyms: string[] = [], conceptClass = 'Diagnosis') =>
+    ({ uuid, display, conceptClass: { display: conceptClass }, names: synonyms.map(name => ({ name, locale: 'en' })) });
+
+/**
+ * A resolver whose OpenMRS answers every concept and drug search with the given results.
+ */
+function resolverFor(results: { concepts?: any[], drugs?: any[] }, threshold = 0.9) {
+    const requests: string[] = [];
+    const restApi = axios.create({
+        adapter: async config => {
+            requests.push(config.url!);
+            const data = config.url!.startsWith('/drug') ? { results: results.drugs || [] } : { results: results.concepts || [] };
+            return { data, status: 200, statusText: 'OK', headers: {}, config };
+        },
+    });
+
+    return { resolver: new ConceptResolver(restApi, { ttlMs: 60 * 1000, threshold }), requests };
+}
+
+test('a concept named exactly as the text is an exact match', async () => {
+    const { resolver } = resolverFor({ concepts: [concept('concept-malaria', 'Malaria'), concept('concept-typhoid', 'Typhoid fever')] });
+
+    assert.deepEqual(await resolver.resolveConcept('malaria', 'diagnosis'), { uuid: 'concept-malaria', display: 'Malaria', match: 'exact', score: 1 });
+});
+
+test('another name of a concept, or a known abbreviation, is a synonym match', async () => {
+    const { resolver } = resolverFor({
+        concepts: [concept('concept-hypertension', 'Hypertension', ['High blood pressure']), concept('concept-oral', 'Oral', [], 'Misc')],
+    });
+
+    assert.deepEqual(await resolver.resolveConcept('High blood pressure'), { uuid: 'concept-hypertension', display: 'Hypertension', match: 'synonym', score: 1 });
+    assert.deepEqual(await resolver.resolveConcept('PO', 'route'), { uuid: 'concept-oral', display: 'Oral', match: 'synonym', score: 1 });
+});
+
+test('a misspelling close enough to a name is a fuzzy match', async () => {
+    const { resolver } = resolverFor({ concepts: [concept('concept-tb', 'Tuberculosis'), concept('concept-malaria', 'Malaria')] });
+
+    const resolved = await resolver.resolveConcept('Tuberculosys', 'diagnosis');
+    assert.equal(resolved.uuid, 'concept-tb');
+    assert.equal(resolved.match, 'fuzzy');
+    assert.ok(resolved.score >= 0.9 && resolved.score < 1);
+});
+
+test('a best match below the threshold is not found', async () => {
+    const { resolver } = resolverFor({ concepts: [concept('concept-malaria', 'Malaria')] });
+
+    await assert.rejects(resolver.resolveConcept('Malria', 'diagnosis'), (error: Error) =>
+        error instanceof ConceptNotFoundError && /Concept UUID not found for 'Malria'\. Closest match was 'Malaria' \(0\.86\)/.test(error.message)
+    );
+
+    // The same text resolves with a lower threshold
+    const lenient = resolverFor({ concepts: [concept('concept-malaria', 'Malaria')] }, 0.8);
+    assert.equal((await lenient.resolver.resolveConcept('Malria', 'diagnosis')).uuid, 'concept-malaria');
+});
+
+test('names that differ only in a number never match', async () => {
+    const { resolver } = resolverFor({ concepts: [concept('concept-dm1', 'Diabetes mellitus type 1')] });
+
+    await assert.rejects(resolver.resolveConcept('Diabetes mellitus type 2', 'diagnosis'), ConceptNotFoundError);
+});
+
+test('on a tie the first candidate OpenMRS returned is kept', async () => {
+    const { resolver } = resolverFor({
+        concepts: [concept('concept-first', 'Tuberculosas'), concept('concept-second', 'Tuberculosys'), concept('concept-exact', 'Fever'), concept('concept-synonym', 'Pyrexia', ['Fever'])],
+    });
+
+    assert.equal((await resolver.resolveConcept('Tuberculosis', 'diagnosis')).uuid, 'concept-first');
+    assert.equal((await resolver.resolveConcept('Fever', 'diagnosis')).uuid, 'concept-exact');
+});
+
+test('a drug is only matched among those of the requested strength', async () => {
+    const drug = (uuid: string, name: string, strength: string) => ({ uuid, display: name, name, strength, concept: { uuid: `concept-${uuid}`, names: [] } });
+    const { resolver } = resolverFor({ drugs: [drug('paracetamol-500', 'Paracetamol 500 mg', '500 mg'), drug('paracetamol-1000', 'Paracetamol 1 g', '1 g')] });
+
+    assert.equal((await resolver.resolveDrug('Paracetamol', '1000mg')).uuid, 'paracetamol-1000');
+    assert.equal((await resolver.resolveDrug('paracetamol', '0.5 g')).uuid, 'paracetamol-500');
+    await assert.rejects(resolver.resolveDrug('Paracetamol', '250 mg'), /Drug UUID not found for 'Paracetamol 250 mg'/);
+});
+
+test('lookups are cached', async () => {
+    const { resolver, requests } = resolverFor({ concepts: [concept('concept-malaria', 'Malaria')] });
+
+    await resolver.resolveConcept('Malaria', 'diagnosis');
+    await resolver.resolveConcept(' malaria ', 'diagnosis');
+    assert.equal(requests.length, 1);
+
+    resolver.clearCache();
+    await resolver.resolveConcept('Malaria', 'diagnosis');
+    assert.equal(requests.length, 2);
+});
@@ -0,0 +1,459 @@
+import type { AxiosInstance } from 'axios';
+import type { TerminologyMap, TerminologySection } from './terminology-map';
+
+/**
+ * What a free-text value from Mercurie is being resolved as. Units, routes and frequencies are
+ * looked up among the values the OpenMRS order entry accepts, the others among all concepts.
+ */
+export type ConceptKind = 'diagnosis' | 'labTest' | 'specimen' | 'allergen' | 'reaction' | 'doseUnit' | 'route' | 'frequency' | 'durationUnit' | 'dispenseUnit' | 'any';
+
+export type ResolvedConcept = {
+    uuid: string;
+    display: string;
+    match: 'mapped' | 'exact' | 'synonym' | 'fuzzy';
+    score: number;
+};
+
+/**
+ * Thrown when no concept or drug scores above the confidence threshold.
+ */
+export class ConceptNotFoundError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ConceptNotFoundError';
+    }
+}
+
+type Candidate = {
+    uuid: string;
+    display: string;
+    names: string[];
+    conceptClass?: string;
+    conceptUuid?: string;
+};
+
+type ConceptResolverOptions = {
+    ttlMs: number;
+    threshold: number;
+    terminologyMap?: TerminologyMap;
+};
+
+// The section of the site's terminology map that is checked first for each kind
+const MAPPED_SECTIONS: { [kind in ConceptKind]?: TerminologySection } = {
+    diagnosis: 'diagnoses',
+    labTest: 'lab_tests',
+    specimen: 'specimens',
+    allergen: 'allergens',
+    reaction: 'reactions',
+    doseUnit: 'dose_units',
+    route: 'routes',
+    frequency: 'frequencies',
+    durationUnit: 'duration_units',
+    dispenseUnit: 'dispense_units',
+};
+
+// Whole-phrase synonyms, applied after normalisation
+const PHRASE_SYNONYMS: { [phrase: string]: string } = {
+    'once a day': 'once daily',
+    'once per day': 'once daily',
+    'daily': 'once daily',
+    'od': 'once daily',
+    'qd': 'once daily',
+    'twice a day': 'twice daily',
+    'bid': 'twice daily',
+    'bd': 'twice daily',
+    'three times a day': 'thrice daily',
+    'three times daily': 'thrice daily',
+    'tid': 'thrice daily',
+    'tds': 'thrice daily',
+    'four times a day': 'four times daily',
+    'qid': 'four times daily',
+    'qds': 'four times daily',
+    'hs': 'at bedtime',
+    'qhs': 'at bedtime',
+    'by mouth': 'oral',
+    'orally': 'oral',
+    'po': 'oral',
+    'iv': 'intravenous',
+    'im': 'intramuscular',
+    'sc': 'subcutaneous',
+    'sq': 'subcutaneous',
+    'subcut': 'subcutaneous',
+};
+
+// Single-word abbreviations, applied to every word
+const WORD_SYNONYMS: { [word: string]: string } = {
+    'tab': 'tablet',
+    'cap': 'capsule',
+    'tsp': 'teaspoon',
+    'tbsp': 'tablespoon',
+    'ml': 'milliliter',
+    'millilitre': 'milliliter',
+    'mg': 'milligram',
+    'g': 'gram',
+    'mcg': 'microgram',
+    'iu': 'international unit',
+    'wk': 'week',
+    'wks': 'week',
+    'mo': 'month',
+    'mos': 'month',
+    'hr': 'hour',
+    'hrs': 'hour',
+};
+
+// Concept classes preferred when resolving each kind
+const PREFERRED_CLASSES: { [kind in ConceptKind]?: string[] } = {
+    diagnosis: ['diagnosis', 'finding', 'symptom', 'symptom/finding'],
+    labTest: ['test', 'labset'],
+    specimen: ['specimen'],
+    reaction: ['symptom', 'finding', 'symptom/finding', 'diagnosis'],
+};
+
+const CONCEPT_REPRESENTATION = 'custom:(uuid,display,conceptClass:(display),names:(name,locale))';
+
+/**
+ * Resolves the free-text names Mercurie extracts (diagnoses, units, routes, frequencies and drugs)
+ * to OpenMRS UUIDs. Values in the site's terminology map are used as mapped; otherwise
+ * names and synonyms in every locale are considered, abbreviations and strength
+ * notations are normalised, and when nothing matches exactly the best fuzzy match above
+ * `threshold` is used. Results are cached for `ttlMs`.
+ */
+export class ConceptResolver {
+    private cache = new Map<string, { expires: number, value: Promise<any> }>();
+
+    constructor(private readonly restApi: AxiosInstance, private readonly options: ConceptResolverOptions) {}
+
+    /**
+     * Resolves a concept, or for `frequency` an order frequency, by name.
+     */
+    async resolveConcept(text: string, kind: ConceptKind = 'any'): Promise<ResolvedConcept> {
+        // Checked on every call so that edits to the map apply immediately
+        const section = MAPPED_SECTIONS[kind];
+        const target = section && this.options.terminologyMap?.lookup(section, text);
+        if (target) {
+            return this.resolveMappedTarget(text, target, kind);
+        }
+
+        return this.cached(`concept:${kind}:${normalizeText(text)}`, async () => {
+            const candidates = await this.getCandidates(text, kind);
+            return this.pickBest(text, candidates, `Concept UUID not found for '${text}'`);
+        });
+    }
+
+    /**
+     * Resolves a drug from the formulary by name and strength, e.g. "Paracetamol" and "500mg".
+     */
+    async resolveDrug(name: string, strength: string): Promise<ResolvedConcept> {
+        const fullName = `${name} ${strength}`.trim();
+
+        return this.cached(`drug:${normalizeText(name)}:${normalizeStrength(strength)}`, async () => {
+            const response = await this.restApi.get(`/drug?q=${encodeURIComponent(name)}&v=custom:(uuid,display,name,strength,concept:(uuid,names:(name,locale)))`);
+            const wantedStrength = normalizeStrength(strength);
+
+            // Only drugs of the requested strength qualify; the name is then matched like a concept
+            const candidates: Candidate[] = response.data.results
+                .filter((d: any) => !wantedStrength || normalizeStrength(d.strength || extractStrength(d.name)) === wantedStrength)
+                .map((d: any) => ({
+                    uuid: d.uuid,
+                    display: d.display,
+                    names: [stripStrength(d.name), ...(d.concept?.names || []).map((n: any) => n.name)],
+                }));
+
+            return this.pickBest(name, candidates, `Drug UUID not found for '${fullName}'`);
+        });
+    }
+
+    /**
+     * Checks every entry of the terminology map against the server.
+     * Returns a description of each entry that does not resolve.
+     */
+    async validateTerminologyMap(): Promise<string[]> {
+        const problems: string[] = [];
+        const kinds = Object.fromEntries(Object.entries(MAPPED_SECTIONS).map(([kind, section]) => [section, kind as ConceptKind]));
+
+        for (const { section, text, target } of this.options.terminologyMap?.entries() || []) {
+            try {
+                await this.resolveMappedTarget(text, target, kinds[section]);
+            } catch (error: any) {
+                problems.push(`${section}: ${error.message}`);
+            }
+        }
+
+        return problems;
+    }
+
+    /**
+     * Drops all cached lookups, e.g. after the concept dictionary changed.
+     */
+    clearCache() {
+        this.cache.clear();
+    }
+
+    /**
+     * Looks up the concept a terminology map entry points to. For frequencies the order
+     * frequency of that concept is returned, unless the target already is an order frequency.
+     * @private
+     */
+    private async resolveMappedTarget(text: string, target: string, kind: ConceptKind): Promise<ResolvedConcept> {
+        return this.cached(`mapped:${kind}:${target}`, async () => {
+            const notFound = new ConceptNotFoundError(`Terminology map entry '${text}' points to '${target}', which does not exist on the server`);
+
+            if (kind === 'frequency') {
+                const frequency = (await this.getOrderFrequencies()).find(f => f.uuid === target);
+                if (frequency) return { uuid: frequency.uuid, display: frequency.display, match: 'mapped', score: 1 };
+            }
+
+            const response = await this.restApi.get(`/concept?references=${encodeURIComponent(target)}&v=custom:(uuid,display)`);
+            const concept = response.data.results?.[0];
+            if (!concept) throw notFound;
+
+            if (kind === 'frequency') {
+                const frequency = (await this.getOrderFrequencies()).find(f => f.conceptUuid === concept.uuid);
+                if (!frequency) throw new ConceptNotFoundError(`Terminology map entry '${text}' points to '${concept.display}', which is not an order frequency`);
+                return { uuid: frequency.uuid, display: frequency.display, match: 'mapped', score: 1 };
+            }
+
+            return { uuid: concept.uuid, display: concept.display, match: 'mapped', score: 1 };
+        });
+    }
+
+    /**
+     * @private
+     */
+    private async getOrderFrequencies(): Promise<Candidate[]> {
+        return this.cached('orderfrequencies', async () => {
+            const response = await this.restApi.get('/orderfrequency?v=custom:(uuid,display,concept:(uuid,names:(name,locale)))');
+            return response.data.results.map((f: any) => ({
+                uuid: f.uuid,
+                display: f.display,
+                names: [f.display, ...(f.concept?.names || []).map((n: any) => n.name)],
+                conceptUuid: f.concept?.uuid,
+            }));
+        });
+    }
+
+    /**
+     * @private
+     */
+    private async getCandidates(text: string, kind: ConceptKind): Promise<Candidate[]> {
+        if (kind === 'frequency') {
+            return this.getOrderFrequencies();
+        }
+
+        const searched = await this.searchConcepts(text);
+
+        const allowedUuids = await this.getOrderEntryConceptUuids(kind);
+        if (allowedUuids) {
+            return searched.filter(c => allowedUuids.has(c.uuid));
+        }
+
+        const preferredClasses = PREFERRED_CLASSES[kind];
+        if (preferredClasses) {
+            const preferred = searched.filter(c => preferredClasses.includes(c.conceptClass || ''));
+            return preferred.length > 0 ? preferred : searched;
+        }
+
+        return searched;
+    }
+
+    /**
+     * Searches concepts by name; also searches the synonym when the text is a known abbreviation.
+     * @private
+     */
+    private async searchConcepts(text: string): Promise<Candidate[]> {
+        const queries = [...new Set([text.trim(), expandSynonyms(text)])];
+        const candidates = new Map<string, Candidate>();
+
+        for (const query of queries) {
+            const results = await this.cached(`search:${query.toLowerCase()}`, async () => {
+                const response = await this.restApi.get(`/concept?q=${encodeURIComponent(query)}&v=${CONCEPT_REPRESENTATION}`);
+                return response.data.results;
+            });
+
+            results.forEach((c: any) => candidates.set(c.uuid, {
+                uuid: c.uuid,
+                display: c.display,
+                names: [c.display, ...(c.names || []).map((n: any) => n.name)],
+                conceptClass: c.conceptClass?.display?.toLowerCase(),
+            }));
+        }
+
+        return [...candidates.values()];
+    }
+
+    /**
+     * The concepts the order entry configuration allows for a unit kind, or null for other kinds.
+     * @private
+     */
+    private async getOrderEntryConceptUuids(kind: ConceptKind): Promise<Set<string> | null> {
+        const configKeys: { [key in ConceptKind]?: string } = {
+            doseUnit: 'drugDosingUnits',
+            route: 'drugRoutes',
+            durationUnit: 'durationUnits',
+            dispenseUnit: 'drugDispensingUnits',
+        };
+        const configKey = configKeys[kind];
+        if (!configKey) return null;
+
+        const config = await this.cached('orderentryconfig', async () => (await this.restApi.get('/orderentryconfig')).data);
+        const allowed: any[] = config[configKey] || [];
+
+        // Fall back to an unrestricted search if the server does not configure this kind
+        return allowed.length > 0 ? new Set(allowed.map(c => c.uuid)) : null;
+    }
+
+    /**
+     * Ranks candidates by their best-matching name and returns the top one above the threshold.
+     * @private
+     */
+    private pickBest(text: string, candidates: Candidate[], notFoundMessage: string): ResolvedConcept {
+        const wanted = expandSynonyms(text);
+        let best: ResolvedConcept | null = null;
+
+        for (const candidate of candidates) {
+            for (const [index, name] of candidate.names.entries()) {
+                const score = similarity(wanted, expandSynonyms(name));
+                if (!best || score > best.score) {
+                    const match = score < 1 ? 'fuzzy' : (index === 0 && normalizeText(name) === normalizeText(text) ? 'exact' : 'synonym');
+                    best = { uuid: candidate.uuid, display: candidate.display, match, score };
+                }
+            }
+        }
+
+        if (!best || best.score < this.options.threshold) {
+            const closest = best ? ` Closest match was '${best.display}' (${best.score.toFixed(2)}).` : '';
+            throw new ConceptNotFoundError(`${notFoundMessage}.${closest}`);
+        }
+
+        if (best.match !== 'exact') {
+            console.log(`   - Resolved '${text}' to '${best.display}' (${best.match}, ${best.score.toFixed(2)})`);
+        }
+        return best;
+    }
+
+    /**
+     * Memoises a lookup for the configured TTL. Failed lookups are not kept.
+     * @private
+     */
+    private cached<T>(key: string, load: () => Promise<T>): Promise<T> {
+        const hit = this.cache.get(key);
+        if (hit && hit.expires > Date.now()) return hit.value;
+
+        const value = load();
+        this.cache.set(key, { expires: Date.now() + this.options.ttlMs, value });
+        value.catch(() => this.cache.delete(key));
+        return value;
+    }
+}
+
+
+// --- Normalisation helpers ---
+
+/**
+ * Lower-cases, strips punctuation, separates numbers from units and drops plural "s".
+ */
+function normalizeText(text: string): string {
+    return (text || '')
+        .toLowerCase()
+        .replace(/(\d)([a-zµ%])/g, '$1 $2')
+        .replace(/[^a-z0-9µ%./\s]/g, ' ')
+        .split(/\s+/)
+        .filter(Boolean)
+        .map(word => (word.length > 3 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word))
+        .join(' ');
+}
+
+/**
+ * Normalises the text and replaces known abbreviations and phrases with their full form.
+ */
+function expandSynonyms(text: string): string {
+    const normalized = normalizeText(text);
+    const expanded = normalized.split(' ').map(word => WORD_SYNONYMS[word] || word).join(' ');
+    return PHRASE_SYNONYMS[normalized] || PHRASE_SYNONYMS[expanded] || expanded;
+}
+
+/**
+ * Canonical strength notation: "0.5g", "500mg" and "500 MG" all become "500 mg".
+ */
+export function normalizeStrength(strength: string): string {
+    const unitFactors: { [unit: string]: [string, number] } = {
+        'g': ['mg', 1000],
+        'gram': ['mg', 1000],
+        'mg': ['mg', 1],
+        'milligram': ['mg', 1],
+        'mcg': ['mg', 0.001],
+        'µg': ['mg', 0.001],
+        'ug': ['mg', 0.001],
+        'microgram': ['mg', 0.001],
+        'ml': ['ml', 1],
+        'l': ['ml', 1000],
+        'iu': ['iu', 1],
+        'unit': ['iu', 1],
+        'units': ['iu', 1],
+        '%': ['%', 1],
+    };
+
+    return (strength || '')
+        .toLowerCase()
+        .split('/')
+        .map(part => {
+            const match = part.trim().match(/^(\d+(?:\.\d+)?)\s*([a-zµ%]*)$/);
+            if (!match) return part.trim().replace(/\s+/g, ' ');
+            const [unit, factor] = unitFactors[match[2]] || [match[2], 1];
+            return `${Number((Number(match[1]) * factor).toPrecision(12))}${unit ? ` ${unit}` : ''}`;
+        })
+        .join('/');
+}
+
+/**
+ * Pulls the strength out of a drug name like "Paracetamol 500mg".
+ */
+function extractStrength(name: string): string {
+    return (name || '').match(/\d+(?:\.\d+)?\s*[a-zA-Zµ%]*(?:\s*\/\s*\d*(?:\.\d+)?\s*[a-zA-Z]+)?\s*$/)?.[0]?.trim() || '';
+}
+
+function stripStrength(name: string): string {
+    const strength = extractStrength(name);
+    return strength ? name.slice(0, name.length - strength.length).trim() : name;
+}
+
+/**
+ * Similarity between 0 and 1: the better of the edit-distance ratio and the shared-word ratio.
+ */
+function similarity(a: string, b: string): number {
+    if (a === b) return 1;
+    if (!a || !b) return 0;
+
+    // Names that differ in a number ("Type 1" / "Type 2") or in hyper/hypo are different things
+    const numbers = (s: string) => (s.match(/\d+(\.\d+)?/g) || []).join(' ');
+    if (numbers(a) !== numbers(b)) return 0;
+    if ((/hyper/.test(a) && /hypo/.test(b)) || (/hypo/.test(a) && /hyper/.test(b))) return 0;
+
+    const editScore = 1 - levenshtein(a, b) / Math.max(a.length, b.length);
+
+    const wordsA = new Set(a.split(' '));
+    const wordsB = new Set(b.split(' '));
+    const shared = [...wordsA].filter(w => wordsB.has(w)).length;
+    // Slightly below an exact match even when one name is made of the other's words
+    const wordScore = 0.95 * (2 * shared) / (wordsA.size + wordsB.size);
+
+    return Math.max(editScore, wordScore);
+}
+
+function levenshtein(a: string, b: string): number {
+    let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        for (let j = 1; j <= b.length; j++) {
+            current[j] = Math.min(
+                previous[j] + 1,
+                current[j - 1] + 1,
+                previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+            );
+        }
+        previous = current;
+    }
+
+    return previous[b.length];
+}
@@ -0,0 +1,85 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import type { AxiosInstance, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+
+/**
+ * A write a dry run would have sent to OpenMRS.
+ */
+export type PlannedWrite = {
+    api: 'fhir' | 'rest';
+    method: string;
+    path: string;
+    payload: unknown;
+    // Stands in for the id OpenMRS would assign; later payloads refer to the resource by it
+    placeholder_id: string | null;
+};
+
+const PLACEHOLDER_PREFIX = 'dry-run-';
+
+/**
+ * Collects the writes of one dry run and answers them as OpenMRS would, so that the rest
+ * of the request runs as usual.
+ */
+class DryRun {
+    readonly writes: PlannedWrite[] = [];
+    private resources = new Map<string, any>();
+
+    write(api: PlannedWrite['api'], method: string, path: string, payload: any): any {
+        // A POST to a collection creates a resource; anything else changes the one in the path
+        const creates = method === 'POST' && path.split('/').filter(Boolean).length === 1;
+        const id = creates ? `${PLACEHOLDER_PREFIX}${this.writes.length + 1}` : path.split('/').pop()!;
+
+        this.writes.push({ api, method, path, payload: payload ?? null, placeholder_id: creates ? id : null });
+        const resource = { ...payload, id, uuid: id };
+        if (creates) this.resources.set(id, resource);
+        return resource;
+    }
+
+    /**
+     * What OpenMRS would answer to a read of, or a search for, a resource that only exists in
+     * this dry run; undefined for reads that can go to OpenMRS.
+     */
+    read(api: PlannedWrite['api'], path: string): any {
+        if (!path.includes(PLACEHOLDER_PREFIX)) return undefined;
+
+        const id = path.split('?')[0].split('/').pop()!;
+        if (this.resources.has(id)) return this.resources.get(id);
+        return api === 'fhir' ? { resourceType: 'Bundle', entry: [], link: [] } : { results: [] };
+    }
+}
+
+const activeDryRun = new AsyncLocalStorage<DryRun>();
+
+/**
+ * Runs `run` with every write of the OpenMRS clients recorded instead of sent. Reads still go
+ * to OpenMRS, so concepts, drugs and the patient's chart are looked up as for a real request.
+ */
+export async function runDry<T>(run: () => Promise<T>): Promise<{ result: T, writes: PlannedWrite[] }> {
+    const dryRun = new DryRun();
+    const result = await activeDryRun.run(dryRun, run);
+    return { result, writes: dryRun.writes };
+}
+
+/**
+ * Makes a client take part in `runDry`. Outside a dry run, requests are sent as usual.
+ */
+export function supportDryRun(client: AxiosInstance, api: PlannedWrite['api']) {
+    client.interceptors.request.use((config: InternalAxiosRequestConfig) => {
+        const dryRun = activeDryRun.getStore();
+        if (!dryRun) return config;
+
+        const method = (config.method || 'get').toUpperCase();
+        const path = config.url || '';
+        const data = method === 'GET' ? dryRun.read(api, path) : dryRun.write(api, method, path, config.data);
+        if (data === undefined) return config;
+
+        // Answered here instead of by the HTTP adapter, so nothing reaches OpenMRS
+        config.adapter = async (): Promise<AxiosResponse> => ({
+            data,
+            status: method === 'POST' ? 201 : 200,
+            statusText: method === 'POST' ? 'Created' : 'OK',
+            headers: {},
+            config,
+        });
+        return config;
+    });
+}
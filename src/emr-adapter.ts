@@ -0,0 +1,148 @@
+import { components } from './emr-api-types';
+import { type ResourceChange } from './compensation';
+import { type PlannedWrite } from './dry-run';
+import { type NoteItemResult } from './note-results';
+import { type SafetyFinding } from './order-safety';
+import { type WriteContext, type WriteContextRequest } from './write-context';
+
+type PatientDetails = components['schemas']['PatientDetails'];
+type EncounterDetails = components['schemas']['EncounterDetails'];
+type PostNoteForm = components['schemas']['PostNoteForm'];
+type MedicationOrder = components['schemas']['MedicationOrder'];
+
+/**
+ * Search criteria accepted by `getPatients`.
+ */
+export type PatientSearch = {
+    name?: string;
+    identifier?: string;
+    birthdate?: string;
+    gender?: string;
+    page_size?: number;
+    cursor?: string;
+};
+
+/**
+ * A single page of patients and the token to fetch the next one (null on the last page).
+ */
+export type PatientPage = {
+    patients: PatientDetails[];
+    next_cursor: string | null;
+};
+
+/**
+ * Thrown by `getPatients` for a `cursor` it did not hand out.
+ */
+export class InvalidCursorError extends Error {
+    constructor(message = "Invalid patient list cursor.") {
+        super(message);
+        this.name = 'InvalidCursorError';
+    }
+}
+
+export const DEFAULT_PATIENT_PAGE_SIZE = 50;
+export const MAX_PATIENT_PAGE_SIZE = 200;
+
+/**
+ * The visit the note was written to, what the order safety checks found, the outcome of the note
+ * and of each of its items, and every resource written.
+ * Orders with a `block` finding were not written.
+ */
+export type PostNoteResult = {
+    encounter_id: string;
+    order_safety: SafetyFinding[];
+    items: NoteItemResult[];
+    changes: ResourceChange[];
+};
+
+/**
+ * What POST /notes would do: the same report as a real write, and the payloads it would send.
+ * Ids of resources that would be created are placeholders.
+ */
+export type NotePreview = Omit<PostNoteResult, 'changes'> & { writes: PlannedWrite[] };
+
+/**
+ * A medication ordered in a visit.
+ */
+export type EncounterMedication = {
+    id: string;
+    name: string;
+    status: string;
+    dosage_instruction: string;
+    dose: number | string;
+    dose_unit: string;
+    route: string;
+    frequency: string;
+    duration: number;
+    duration_unit: 'Days' | 'Weeks' | 'Months';
+    dispense_quantity: number;
+    dispense_unit: string;
+    refills: number;
+    start_time: string;
+};
+
+/**
+ * Everything recorded in a visit, as shown to a clinician reviewing it in Mercurie.
+ */
+export type EncounterView = {
+    encounter_id: string;
+    date: string | null;
+    provider: string | null;
+    location: string | null;
+    diagnoses: { diagnosis: string, rank: string, certainty: string }[];
+    medications: EncounterMedication[];
+    lab_orders: { test_name: string, urgency: string, date: string | null }[];
+    vitals: { name: string, value: number, unit: string }[];
+    clinical_note: string;
+};
+
+/**
+ * What server.ts needs from an EMR. One adapter serves one tenant, and is created from that
+ * tenant's settings only, so that several can run side by side.
+ */
+export interface EmrAdapter {
+    // The EMR's own patient chart, with ":patientId" in place of the patient
+    readonly patientChartPage: string;
+
+    getPatients(search?: PatientSearch): Promise<PatientPage>;
+    getPatientEncounters(patientId: string): Promise<EncounterDetails[]>;
+    getPatientSummary(patientId: string): Promise<string | null>;
+    // null when the encounter has no note
+    getEncounterNote(encounterId: string): Promise<string | null>;
+    getEncounterView(encounterId: string): Promise<EncounterView | null>;
+    getMedicationTemplates(filter?: { specialty?: string, provider?: string }): Promise<MedicationOrder[]>;
+
+    resolveWriteContext(request: WriteContextRequest): Promise<WriteContext>;
+    postNote(noteData: PostNoteForm, ctx: WriteContext): Promise<PostNoteResult>;
+    // Without it, POST /notes?dryRun=true is answered with 501
+    previewNote?(noteData: PostNoteForm, ctx: WriteContext): Promise<NotePreview>;
+
+    // The clinical patient lists; a list the EMR cannot produce is left out of GET /patients
+    getActiveVisitPatients?(): Promise<PatientDetails[]>;
+    getTodaysAppointmentPatients?(): Promise<PatientDetails[]>;
+    // The patients the Mercurie user, as mapped to a provider of the EMR, saw in the last `days` days
+    getRecentlySeenPatients?(days: number, user: string): Promise<PatientDetails[]>;
+
+    // Called when the server shuts down, e.g. to end a session
+    close?(): Promise<void>;
+}
+
+// A tenant's settings, named like the environment variables in lower case
+export type TenantSettings = { [setting: string]: any };
+
+/**
+ * An EMR the adapter can talk to, selected per tenant by its `emr` setting.
+ */
+export type EmrAdapterDefinition<Config> = {
+    // Settings a tenant must have
+    requiredSettings: string[];
+    // Settings a tenant may leave out, in which case the environment variable of the same name applies
+    optionalSettings: string[];
+    // Settings that can only be given in the tenants file, as they have no environment variable
+    fileOnlySettings: string[];
+    // Checks a tenant's settings and turns them into the adapter's configuration; throws if they are invalid
+    configure(tenantId: string, settings: TenantSettings): Config;
+    // Where the tenant's EMR is, for the logs
+    describe(config: Config): string;
+    create(config: Config): EmrAdapter;
+};
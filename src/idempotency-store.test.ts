@@ -0,0 +1,92 @@
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { test } from 'node:test';
+import { hashRequest, IdempotencyConflictError, IdempotencyStore } from './idempotency-store';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+type Result = { encounter_id: string, items: string[] };
+
+const fromEncounterId = (encounter_id: string): Result => ({ encounter_id, items: [] });
+
+const tempFile = () => path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'idempotency-')), 'store.json');
+
+test('a replay within the window returns the stored result without writing again', async () => {
+    const filePath = tempFile();
+    let writes = 0;
+    const write = async () => ({ encounter_id: `visit-${++writes}`, items: ['note'] });
+
+    const store = new IdempotencyStore<Result>(filePath, HOUR_MS, fromEncounterId);
+    assert.deepEqual(await store.run('key', 'hash', write), { result: { encounter_id: 'visit-1', items: ['note'] }, replayed: false });
+    assert.deepEqual(await store.run('key', 'hash', write), { result: { encounter_id: 'visit-1', items: ['note'] }, replayed: true });
+
+    // Also after a restart
+    const reloaded = new IdempotencyStore<Result>(filePath, HOUR_MS, fromEncounterId);
+    assert.deepEqual(await reloaded.run('key', 'hash', write), { result: { encounter_id: 'visit-1', items: ['note'] }, replayed: true });
+    assert.equal(writes, 1);
+});
+
+test('a request after the window is written again', async () => {
+    const filePath = tempFile();
+    const created_at = new Date(Date.now() - 2 * HOUR_MS).toISOString();
+    fs.writeFileSync(filePath, JSON.stringify({ key: { request_hash: 'hash', result: { encounter_id: 'visit-1', items: [] }, created_at } }));
+
+    const store = new IdempotencyStore<Result>(filePath, HOUR_MS, fromEncounterId);
+    const { result, replayed } = await store.run('key', 'hash', async () => ({ encounter_id: 'visit-2', items: [] }));
+    assert.equal(replayed, false);
+    assert.equal(result.encounter_id, 'visit-2');
+});
+
+test('a key reused for another request is refused', async () => {
+    const store = new IdempotencyStore<Result>(tempFile(), HOUR_MS, fromEncounterId);
+    await store.run('key', 'hash', async () => ({ encounter_id: 'visit-1', items: [] }));
+
+    await assert.rejects(store.run('key', 'other hash', async () => ({ encounter_id: 'visit-2', items: [] })), IdempotencyConflictError);
+});
+
+test('a request arriving while the first still runs shares its outcome', async () => {
+    const store = new IdempotencyStore<Result>(tempFile(), HOUR_MS, fromEncounterId);
+    let writes = 0;
+    let finish!: (result: Result) => void;
+    const write = () => {
+        writes++;
+        return new Promise<Result>(resolve => finish = resolve);
+    };
+
+    const first = store.run('key', 'hash', write);
+    const second = store.run('key', 'hash', write);
+    await assert.rejects(store.run('key', 'other hash', write), IdempotencyConflictError);
+    finish({ encounter_id: 'visit-1', items: [] });
+
+    assert.deepEqual(await first, { result: { encounter_id: 'visit-1', items: [] }, replayed: false });
+    assert.deepEqual(await second, { result: { encounter_id: 'visit-1', items: [] }, replayed: true });
+    assert.equal(writes, 1);
+});
+
+test('a failed write is not remembered, so it can be retried', async () => {
+    const store = new IdempotencyStore<Result>(tempFile(), HOUR_MS, fromEncounterId);
+
+    await assert.rejects(store.run('key', 'hash', async () => { throw new Error('OpenMRS is down'); }), /OpenMRS is down/);
+    const { result, replayed } = await store.run('key', 'hash', async () => ({ encounter_id: 'visit-1', items: [] }));
+    assert.equal(replayed, false);
+    assert.equal(result.encounter_id, 'visit-1');
+});
+
+test('a record holding only the encounter id is still replayed', async () => {
+    const filePath = tempFile();
+    fs.writeFileSync(filePath, JSON.stringify({ key: { request_hash: 'hash', encounter_id: 'visit-1', created_at: new Date().toISOString() } }));
+
+    const store = new IdempotencyStore<Result>(filePath, HOUR_MS, fromEncounterId);
+    const { result, replayed } = await store.run('key', 'hash', async () => ({ encounter_id: 'visit-2', items: [] }));
+    assert.equal(replayed, true);
+    assert.deepEqual(result, { encounter_id: 'visit-1', items: [] });
+});
+
+test('the request hash does not depend on the order of keys', () => {
+    const hash = hashRequest({ patient_id: 'p1', notes_json: { Diagnoses: [{ Diagnosis: 'Malaria', Rank: 'Primary' }], 'Clinical Note': 'Fever' } });
+
+    assert.equal(hashRequest({ notes_json: { 'Clinical Note': 'Fever', Diagnoses: [{ Rank: 'Primary', Diagnosis: 'Malaria' }] }, patient_id: 'p1' }), hash);
+    assert.notEqual(hashRequest({ patient_id: 'p2', notes_json: { Diagnoses: [{ Diagnosis: 'Malaria', Rank: 'Primary' }], 'Clinical Note': 'Fever' } }), hash);
+});
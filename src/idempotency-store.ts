@@ -0,0 +1,112 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+
+type IdempotencyRecord<T> = {
+    request_hash: string;
+    result: T;
+    created_at: string;
+};
+
+/**
+ * Thrown when an idempotency key is reused for a request with a different body.
+ */
+export class IdempotencyConflictError extends Error {
+    constructor(key: string) {
+        super(`Idempotency-Key '${key}' was already used for a different request.`);
+        this.name = 'IdempotencyConflictError';
+    }
+}
+
+/**
+ * Remembers the outcome of note writes on disk so that a retried request returns
+ * the original result instead of writing the note to OpenMRS a second time.
+ */
+export class IdempotencyStore<T> {
+    private records: { [key: string]: IdempotencyRecord<T> } = {};
+    private inFlight = new Map<string, { requestHash: string, result: Promise<T> }>();
+
+    /**
+     * `fromEncounterId` builds the result of a record written before whole results were kept,
+     * which only has the encounter id, so that it is still replayed rather than written again.
+     */
+    constructor(private readonly filePath: string, private readonly windowMs: number, fromEncounterId: (encounterId: string) => T) {
+        if (fs.existsSync(filePath)) {
+            this.records = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+        }
+
+        for (const record of Object.values(this.records) as (Partial<IdempotencyRecord<T>> & { encounter_id?: string })[]) {
+            if (record.result === undefined && record.encounter_id) {
+                record.result = fromEncounterId(record.encounter_id);
+                delete record.encounter_id;
+            }
+        }
+    }
+
+    /**
+     * Runs `write` once per key within the replay window.
+     * A replay returns the stored result; a request arriving while the first is still
+     * running waits for it and shares its outcome.
+     */
+    async run(key: string, requestHash: string, write: () => Promise<T>): Promise<{ result: T, replayed: boolean }> {
+        const pending = this.inFlight.get(key);
+        if (pending) {
+            if (pending.requestHash !== requestHash) throw new IdempotencyConflictError(key);
+            console.log(`-> Request with idempotency key ${key} is already running. Waiting for it...`);
+            return { result: await pending.result, replayed: true };
+        }
+
+        const record = this.records[key];
+        if (record && Date.now() - Date.parse(record.created_at) < this.windowMs) {
+            if (record.request_hash !== requestHash) throw new IdempotencyConflictError(key);
+            console.log(`-> Replaying idempotency key ${key}.`);
+            return { result: record.result, replayed: true };
+        }
+
+        const result = write();
+        this.inFlight.set(key, { requestHash, result });
+        try {
+            const written = await result;
+            // Only successful writes are remembered, so a failed request can be retried
+            this.records[key] = { request_hash: requestHash, result: written, created_at: new Date().toISOString() };
+            this.save();
+            return { result: written, replayed: false };
+        } finally {
+            this.inFlight.delete(key);
+        }
+    }
+
+    /**
+     * Drops expired records and writes the rest atomically.
+     * @private
+     */
+    private save() {
+        const now = Date.now();
+        for (const [key, record] of Object.entries(this.records)) {
+            if (now - Date.parse(record.created_at) >= this.windowMs) delete this.records[key];
+        }
+
+        fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+        const tempPath = `${this.filePath}.tmp`;
+        fs.writeFileSync(tempPath, JSON.stringify(this.records, null, 2));
+        fs.renameSync(tempPath, this.filePath);
+    }
+}
+
+/**
+ * SHA-256 of the request body with object keys sorted, so that key order does not matter.
+ */
+export function hashRequest(body: unknown): string {
+    const canonicalize = (value: any): any => {
+        if (Array.isArray(value)) return value.map(canonicalize);
+        if (value !== null && typeof value === 'object') {
+            return Object.keys(value).sort().reduce((acc, key) => {
+                acc[key] = canonicalize(value[key]);
+                return acc;
+            }, {} as { [key: string]: any });
+        }
+        return value;
+    };
+
+    return crypto.createHash('sha256').update(JSON.stringify(canonicalize(body))).digest('hex');
+}
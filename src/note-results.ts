@@ -0,0 +1,75 @@
+import { isAxiosError } from 'axios';
+import { ConceptNotFoundError, type ResolvedConcept } from './concept-resolver';
+import { NoteValidationError } from './note-schema';
+import { OpenMRSAuthError } from './openmrs-auth';
+import { CircuitOpenError } from './resilient-client';
+import { VitalsValidationError } from './vitals';
+import { WriteContextError } from './write-context';
+
+/**
+ * Why a note, or one item of it, could not be written:
+ * - validation: the request itself is invalid
+ * - terminology: a drug, unit or diagnosis could not be resolved to an OpenMRS concept
+ * - rejected: OpenMRS refused the write
+ * - openmrs_error: OpenMRS failed, or refused the adapter's credentials
+ * - unavailable: OpenMRS could not be reached, did not answer in time, or has just failed repeatedly
+ * - internal: anything else
+ */
+export type FailureReason = 'validation' | 'terminology' | 'rejected' | 'openmrs_error' | 'unavailable' | 'internal';
+
+// The HTTP status a request that failed for each reason is answered with
+export const FAILURE_STATUS: { [reason in FailureReason]: number } = {
+    validation: 400,
+    terminology: 422,
+    rejected: 422,
+    openmrs_error: 502,
+    unavailable: 503,
+    internal: 500,
+};
+
+// A single item failing for these reasons is reported and the rest of the note is written.
+// The others fail the whole note, as the next write would most likely fail the same way.
+export const ITEM_FAILURE_REASONS: FailureReason[] = ['terminology', 'rejected'];
+
+/**
+ * The outcome of one part of a note: the note text, a diagnosis, a medication, a lab order,
+ * a vital sign, an allergy or a change to the problem list.
+ * `concept` is what the name resolved to; null for a diagnosis saved as free text.
+ */
+export type NoteItemResult = {
+    kind: 'note' | 'diagnosis' | 'medication' | 'lab_order' | 'vital' | 'allergy' | 'problem';
+    name: string;
+    action: 'created' | 'updated' | 'revised' | 'unchanged' | 'voided' | 'discontinued' | 'resolved';
+    // blocked: not written because of an order safety finding
+    status: 'success' | 'failed' | 'blocked';
+    uuid?: string;
+    concept?: ResolvedConcept | null;
+    reason?: FailureReason;
+    error?: string;
+};
+
+/**
+ * Classifies an error by the first cause in its chain that tells why it happened.
+ */
+export function failureReason(error: unknown): FailureReason {
+    for (let current: any = error; current; current = current.cause) {
+        if (current instanceof ConceptNotFoundError) return 'terminology';
+        if (current instanceof CircuitOpenError) return 'unavailable';
+        if (current instanceof OpenMRSAuthError) return 'openmrs_error';
+        if (current instanceof NoteValidationError || current instanceof VitalsValidationError || current instanceof WriteContextError) return 'validation';
+        if (isAxiosError(current)) {
+            const status = current.response?.status;
+            if (!status) return 'unavailable';
+            return status >= 500 || status === 401 || status === 403 ? 'openmrs_error' : 'rejected';
+        }
+    }
+    return 'internal';
+}
+
+/**
+ * The most specific message of an error: OpenMRS's own message where there is one, from the
+ * REST API or a FHIR OperationOutcome.
+ */
+export function failureMessage(error: any): string {
+    return error.response?.data?.error?.message || error.response?.data?.issue?.[0]?.diagnostics || error.message || String(error);
+}
@@ -0,0 +1,83 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { NoteValidationError, validateNoteForm, type NoteProblem } from './note-schema';
+
+const MEDICATION = {
+    'Name': 'Amoxicillin', 'Strength': '500 mg', 'Dose': 1, 'Dose Unit': 'Tablet', 'Route': 'Oral', 'Frequency': 'Three times daily',
+    'Duration': 5, 'Duration Unit': 'Days', 'Dispense Quantity': 15, 'Dispense Unit': 'Tablet',
+};
+
+const form = (notesJson: { [section: string]: any }, fields: { [field: string]: any } = {}): any =>
+    ({ patient_id: 'patient-1', note_title: 'Visit', notes_json: { 'Clinical Note': 'Fever for three days.', ...notesJson }, ...fields });
+
+const problemsOf = (body: any): NoteProblem[] => {
+    try {
+        validateNoteForm(body);
+    } catch (error) {
+        if (error instanceof NoteValidationError) return error.problems;
+        throw error;
+    }
+    assert.fail('The note was accepted');
+};
+
+test('enums are matched regardless of case and numbers may be sent as text', () => {
+    const notes = validateNoteForm(form({
+        'Diagnoses': [{ 'Diagnosis': ' Malaria ', 'Certainty': 'confirmed', 'Rank': 'PRIMARY' }],
+        'Medications': [{ ...MEDICATION, 'Dose': '5', 'Refills': '2' }],
+    }));
+
+    assert.deepEqual(notes['Diagnoses'], [{ 'Diagnosis': 'Malaria', 'Certainty': 'Confirmed', 'Rank': 'Primary' }]);
+    assert.equal(notes['Medications']![0]['Dose'], 5);
+    assert.equal(notes['Medications']![0]['Refills'], 2);
+});
+
+test('missing optional fields take their defaults and unknown fields are dropped', () => {
+    const notes = validateNoteForm(form({
+        'Diagnoses': [{ 'Diagnosis': 'Malaria', 'Comment': 'ignored' }],
+        'Lab Orders': [{ 'Test Name': 'Malaria smear' }],
+    }));
+
+    assert.deepEqual(notes['Diagnoses'], [{ 'Diagnosis': 'Malaria', 'Certainty': 'Provisional', 'Rank': 'Secondary' }]);
+    assert.deepEqual(notes['Lab Orders'], [{ 'Test Name': 'Malaria smear', 'Urgency': 'Routine', 'Specimen': '', 'Clinical Reason': '' }]);
+});
+
+test('every problem is reported with a JSON pointer to its field', () => {
+    const problems = problemsOf(form({
+        'Diagnoses': [{ 'Diagnosis': 'Malaria', 'Certainty': 'Probable' }],
+        'Medications': [{ ...MEDICATION, 'Dose': 'two', 'Route': '' }],
+        'Lab Orders': {},
+    }));
+
+    assert.deepEqual(problems, [
+        { path: '/notes_json/Diagnoses/0/Certainty', message: "'Probable' is not one of: Confirmed, Provisional" },
+        { path: '/notes_json/Medications/0/Dose', message: "'two' is not a number" },
+        { path: '/notes_json/Medications/0/Route', message: 'is required' },
+        { path: '/notes_json/Lab Orders', message: 'must be a list' },
+    ]);
+});
+
+test('numbers out of range are refused', () => {
+    const problems = problemsOf(form({ 'Medications': [{ ...MEDICATION, 'Duration': 0, 'Refills': 1.5 }] }));
+
+    assert.deepEqual(problems.map(p => p.path), ['/notes_json/Medications/0/Duration', '/notes_json/Medications/0/Refills']);
+});
+
+test('a section that is left out stays apart from an empty one', () => {
+    const notes = validateNoteForm(form({ 'Diagnoses': [] }));
+
+    assert.deepEqual(notes['Diagnoses'], []);
+    assert.equal(notes['Medications'], undefined);
+    assert.ok(!('Medications' in notes));
+});
+
+test('the clinical note and patient are required', () => {
+    const problems = problemsOf({ encounter_id: 'visit-1', note_title: 'Visit', notes_json: { 'Clinical Note': ' ' } });
+
+    assert.deepEqual(problems.map(p => p.path), ['/patient_id', '/notes_json/Clinical Note']);
+});
+
+test('a note without structured JSON is refused', () => {
+    assert.deepEqual(problemsOf({ patient_id: 'patient-1', note_title: 'Visit', notes_markdown: '# Note' }), [
+        { path: '/notes_json', message: 'is required; notes must be sent in structured JSON format' },
+    ]);
+});
@@ -0,0 +1,275 @@
+import { components } from './emr-api-types';
+import { type KeysToTitleCase } from './utils';
+import { parseVitals, VitalsValidationError } from './vitals';
+
+type PostNoteForm = components['schemas']['PostNoteForm'];
+type MedicationOrderFromSchema = components['schemas']['MedicationOrder'];
+
+// --- Define the structure for a single diagnosis ---
+export type Diagnosis = {
+    diagnosis: string;
+    certainty: 'Confirmed' | 'Provisional';
+    rank: "Primary" | "Secondary"
+};
+
+// --- Define the structure for a single lab test order ---
+export type LabOrder = {
+    test_name: string;
+    urgency: string;
+    specimen: string;
+    clinical_reason: string;
+};
+
+// --- Define the structure for a single allergy ---
+export type Allergy = {
+    allergen: string;
+    reaction: string;
+    severity: string;
+    category: string;
+};
+
+// --- Define the structure for a problem the clinician marked as resolved ---
+export type ResolvedProblem = {
+    problem: string;
+};
+
+// make the additional properties explicit
+export interface MedicationOrder extends MedicationOrderFromSchema {
+    dose: number;
+    dose_unit: string;
+    route: string;
+    frequency: string;
+    patient_instructions: string;
+    prn_reason: string;
+    duration: number;
+    duration_unit: string;
+    dispense_quantity: number;
+    dispense_unit: string;
+    refills: number;
+    indication: string;
+};
+
+export type TitleCaseMedicationOrder = KeysToTitleCase<MedicationOrder>;
+export type TitleCaseDiagnosis = KeysToTitleCase<Diagnosis>;
+export type TitleCaseLabOrder = KeysToTitleCase<LabOrder>;
+export type TitleCaseAllergy = KeysToTitleCase<Allergy>;
+export type TitleCaseResolvedProblem = KeysToTitleCase<ResolvedProblem>;
+
+// the template used on Mercurie should have these fields. A list section the note leaves out is
+// undefined, which is not the same as an empty one: an update leaves the visit's own diagnoses or
+// medications alone for the first, and removes them all for the second.
+export type Notes = {
+    "Clinical Note": any,
+    "Diagnoses"?: TitleCaseDiagnosis[],
+    "Medications"?: TitleCaseMedicationOrder[],
+    "Lab Orders"?: TitleCaseLabOrder[],
+    "Vitals": { [key: string]: any },
+    "Allergies"?: TitleCaseAllergy[],
+    "Resolved Problems"?: TitleCaseResolvedProblem[],
+}
+
+/**
+ * One thing wrong with a note, at a JSON pointer into the request body such as
+ * "/notes_json/Medications/0/Dose".
+ */
+export type NoteProblem = {
+    path: string;
+    message: string;
+};
+
+/**
+ * Thrown when a note does not have the shape of the Mercurie template.
+ */
+export class NoteValidationError extends Error {
+    constructor(public readonly problems: NoteProblem[]) {
+        super(`Invalid note: ${problems.map(p => `${p.path}: ${p.message}`).join('; ')}`);
+        this.name = 'NoteValidationError';
+    }
+}
+
+/**
+ * A field of a note item. Strings are trimmed and numbers may be sent as strings;
+ * enum values match regardless of case and are returned as listed.
+ * A field without `required` falls back to `default` when missing or empty.
+ */
+type FieldSpec =
+    | { type: 'string', required?: boolean, default?: string }
+    | { type: 'number', required?: boolean, default?: number, min?: number, positive?: boolean, integer?: boolean }
+    | { type: 'enum', values: string[], required?: boolean, default?: string };
+
+const DIAGNOSIS_FIELDS: { [field: string]: FieldSpec } = {
+    'Diagnosis': { type: 'string', required: true },
+    // A diagnosis the template does not qualify is neither confirmed nor the main one
+    'Certainty': { type: 'enum', values: ['Confirmed', 'Provisional'], default: 'Provisional' },
+    'Rank': { type: 'enum', values: ['Primary', 'Secondary'], default: 'Secondary' },
+};
+
+const MEDICATION_FIELDS: { [field: string]: FieldSpec } = {
+    'Name': { type: 'string', required: true },
+    'Strength': { type: 'string', default: '' },
+    'Dose': { type: 'number', required: true, positive: true },
+    'Dose Unit': { type: 'string', required: true },
+    'Route': { type: 'string', required: true },
+    'Frequency': { type: 'string', required: true },
+    'Patient Instructions': { type: 'string', default: '' },
+    'Prn Reason': { type: 'string', default: '' },
+    'Duration': { type: 'number', required: true, positive: true },
+    'Duration Unit': { type: 'string', required: true },
+    'Dispense Quantity': { type: 'number', required: true, positive: true },
+    'Dispense Unit': { type: 'string', required: true },
+    'Refills': { type: 'number', default: 0, min: 0, integer: true },
+    'Indication': { type: 'string', default: '' },
+};
+
+const LAB_ORDER_FIELDS: { [field: string]: FieldSpec } = {
+    'Test Name': { type: 'string', required: true },
+    'Urgency': { type: 'enum', values: ['Routine', 'Urgent', 'STAT'], default: 'Routine' },
+    'Specimen': { type: 'string', default: '' },
+    'Clinical Reason': { type: 'string', default: '' },
+};
+
+const ALLERGY_FIELDS: { [field: string]: FieldSpec } = {
+    'Allergen': { type: 'string', required: true },
+    'Reaction': { type: 'string', default: '' },
+    'Severity': { type: 'enum', values: ['Mild', 'Moderate', 'Severe'], default: '' },
+    'Category': { type: 'enum', values: ['Drug', 'Medication', 'Food', 'Environment', 'Environmental'], default: '' },
+};
+
+const RESOLVED_PROBLEM_FIELDS: { [field: string]: FieldSpec } = {
+    'Problem': { type: 'string', required: true },
+};
+
+// The list sections of the template; each may be left out
+const LIST_SECTIONS: { [section: string]: { [field: string]: FieldSpec } } = {
+    'Diagnoses': DIAGNOSIS_FIELDS,
+    'Medications': MEDICATION_FIELDS,
+    'Lab Orders': LAB_ORDER_FIELDS,
+    'Allergies': ALLERGY_FIELDS,
+    'Resolved Problems': RESOLVED_PROBLEM_FIELDS,
+};
+
+/**
+ * Checks a POST /notes body and returns its `notes_json` with enums in their canonical spelling
+ * and numbers as numbers. List sections that are left out stay undefined. Fields the template does not
+ * know are dropped. All problems are collected before a `NoteValidationError` is thrown.
+ */
+export function validateNoteForm(form: PostNoteForm): Notes {
+    const problems: NoteProblem[] = [];
+    const body = form as { [key: string]: any };
+
+    if (body.encounter_id !== undefined && (typeof body.encounter_id !== 'string' || !body.encounter_id.trim())) {
+        problems.push({ path: '/encounter_id', message: 'must be a non-empty string' });
+    }
+    // Required on updates too, as what is written to the visit is recorded against the patient
+    if (typeof body.patient_id !== 'string' || !body.patient_id.trim()) {
+        problems.push({ path: '/patient_id', message: 'is required' });
+    }
+
+    const notesJson = body.notes_json;
+    if (notesJson === undefined) {
+        problems.push({ path: '/notes_json', message: 'is required; notes must be sent in structured JSON format' });
+        throw new NoteValidationError(problems);
+    }
+    if (!isObject(notesJson)) {
+        problems.push({ path: '/notes_json', message: 'must be an object' });
+        throw new NoteValidationError(problems);
+    }
+
+    const notes: { [section: string]: any } = {};
+
+    const clinicalNote = notesJson['Clinical Note'];
+    if (typeof clinicalNote === 'string' ? !clinicalNote.trim() : !isObject(clinicalNote)) {
+        problems.push({ path: pointer('/notes_json', 'Clinical Note'), message: 'is required, as text or an object of sections' });
+    }
+    notes['Clinical Note'] = clinicalNote;
+
+    for (const [section, fields] of Object.entries(LIST_SECTIONS)) {
+        const path = pointer('/notes_json', section);
+        const items = notesJson[section];
+        if (items === undefined || items === null) continue;
+        if (!Array.isArray(items)) {
+            problems.push({ path, message: 'must be a list' });
+            continue;
+        }
+        notes[section] = items.map((item, index) => validateItem(item, fields, pointer(path, String(index)), problems));
+    }
+
+    const vitals = notesJson['Vitals'] ?? {};
+    if (!isObject(vitals)) {
+        problems.push({ path: pointer('/notes_json', 'Vitals'), message: 'must be an object of vital signs' });
+    } else {
+        // Each sign on its own, so that every problem points at its vital sign
+        for (const [key, value] of Object.entries(vitals)) {
+            try {
+                parseVitals({ [key]: value });
+            } catch (error) {
+                if (!(error instanceof VitalsValidationError)) throw error;
+                problems.push({ path: pointer(pointer('/notes_json', 'Vitals'), key), message: error.problems.join('; ') });
+            }
+        }
+        notes['Vitals'] = vitals;
+    }
+
+    if (problems.length > 0) throw new NoteValidationError(problems);
+    return notes as Notes;
+}
+
+/**
+ * @private
+ */
+function validateItem(item: unknown, fields: { [field: string]: FieldSpec }, path: string, problems: NoteProblem[]): { [field: string]: string | number } {
+    const validated: { [field: string]: string | number } = {};
+    if (!isObject(item)) {
+        problems.push({ path, message: 'must be an object' });
+        return validated;
+    }
+
+    for (const [field, spec] of Object.entries(fields)) {
+        const fieldPath = pointer(path, field);
+        const raw = item[field];
+
+        if (raw === undefined || raw === null || (typeof raw === 'string' && !raw.trim())) {
+            if (spec.required) problems.push({ path: fieldPath, message: 'is required' });
+            else if (spec.default !== undefined) validated[field] = spec.default;
+            continue;
+        }
+
+        if (typeof raw !== 'string' && typeof raw !== 'number') {
+            problems.push({ path: fieldPath, message: `must be ${spec.type === 'number' ? 'a number' : 'text'}` });
+            continue;
+        }
+        const text = String(raw).trim();
+
+        if (spec.type === 'string') {
+            validated[field] = text;
+        } else if (spec.type === 'enum') {
+            const value = spec.values.find(v => v.toLowerCase() === text.toLowerCase());
+            if (value === undefined) problems.push({ path: fieldPath, message: `'${text}' is not one of: ${spec.values.join(', ')}` });
+            else validated[field] = value;
+        } else {
+            const value = Number(text);
+            if (!/^-?\d+(\.\d+)?$/.test(text) || !Number.isFinite(value)) problems.push({ path: fieldPath, message: `'${text}' is not a number` });
+            else if (spec.positive && value <= 0) problems.push({ path: fieldPath, message: 'must be greater than 0' });
+            else if (spec.min !== undefined && value < spec.min) problems.push({ path: fieldPath, message: `must be at least ${spec.min}` });
+            else if (spec.integer && !Number.isInteger(value)) problems.push({ path: fieldPath, message: 'must be a whole number' });
+            else validated[field] = value;
+        }
+    }
+
+    return validated;
+}
+
+/**
+ * Appends a key to a JSON pointer, escaping '~' and '/' as RFC 6901 requires.
+ * @private
+ */
+function pointer(path: string, key: string): string {
+    return `${path}/${key.replace(/~/g, '~0').replace(/\//g, '~1')}`;
+}
+
+/**
+ * @private
+ */
+function isObject(value: unknown): value is { [key: string]: any } {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
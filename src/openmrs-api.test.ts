@@ -0,0 +1,279 @@
+import assert from 'node:assert/strict';
+import http from 'node:http';
+import { type AddressInfo } from 'node:net';
+import { test } from 'node:test';
+import { createOpenMRSApi, DEFAULT_ENCOUNTER_TYPES } from './openmrs-api';
+import { parseSafetyPolicy } from './order-safety';
+
+const CONTEXT = { provider: 'provider-1', location: 'location-1', visitType: DEFAULT_ENCOUNTER_TYPES.visitTypes['OPD Visit'] };
+
+// The concept dictionary of the fake OpenMRS; every search returns all of it
+const CONCEPTS = [
+    { uuid: 'concept-malaria', display: 'Malaria', conceptClass: { display: 'Diagnosis' }, names: [] },
+    { uuid: 'concept-pneumonia', display: 'Pneumonia', conceptClass: { display: 'Diagnosis' }, names: [] },
+    { uuid: 'concept-tablet', display: 'Tablet', conceptClass: { display: 'Drug form' }, names: [] },
+    { uuid: 'concept-oral', display: 'Oral', conceptClass: { display: 'Misc' }, names: [] },
+    { uuid: 'concept-days', display: 'Days', conceptClass: { display: 'Units of Measure' }, names: [] },
+];
+
+const DRUGS = [
+    { uuid: 'drug-amoxicillin', display: 'Amoxicillin 500 mg', name: 'Amoxicillin 500 mg', strength: '500 mg', concept: { uuid: 'concept-amoxicillin', names: [] } },
+    { uuid: 'drug-paracetamol', display: 'Paracetamol 500 mg', name: 'Paracetamol 500 mg', strength: '500 mg', concept: { uuid: 'concept-paracetamol', names: [] } },
+    { uuid: 'drug-ibuprofen', display: 'Ibuprofen 400 mg', name: 'Ibuprofen 400 mg', strength: '400 mg', concept: { uuid: 'concept-ibuprofen', names: [] } },
+    { uuid: 'drug-cetirizine', display: 'Cetirizine 10 mg', name: 'Cetirizine 10 mg', strength: '10 mg', concept: { uuid: 'concept-cetirizine', names: [] } },
+];
+
+const MEDICATION = {
+    'Strength': '500 mg', 'Dose': 1, 'Dose Unit': 'Tablet', 'Route': 'Oral', 'Frequency': 'Three times daily',
+    'Duration': 5, 'Duration Unit': 'Days', 'Dispense Quantity': 15, 'Dispense Unit': 'Tablet',
+};
+
+// An active drug order of the visit, dosed as MEDICATION
+const drugOrder = (uuid: string, drug: typeof DRUGS[number], dosing: { [field: string]: any } = {}) => ({
+    uuid, display: drug.display, type: 'drugorder', action: 'NEW', voided: false, dateStopped: null,
+    drug: { uuid: drug.uuid, display: drug.display }, concept: { uuid: drug.concept.uuid },
+    dose: 1, doseUnits: { uuid: 'concept-tablet' }, route: { uuid: 'concept-oral' }, frequency: { uuid: 'frequency-tid', concept: { uuid: 'concept-tid' } },
+    duration: 5, durationUnits: { uuid: 'concept-days' }, quantity: 15, quantityUnits: { uuid: 'concept-tablet' }, numRefills: 0,
+    dosingInstructions: null, asNeeded: false, asNeededCondition: null,
+    ...dosing,
+});
+
+type Visit = {
+    // As returned by GET /encounter/{uuid} of the visit's note encounter
+    diagnoses?: any[];
+    // As returned by GET /encounter/{uuid} of the visit's order encounter
+    orders?: any[];
+};
+
+type Write = { method: string, path: string, body: any };
+
+/**
+ * Starts a fake OpenMRS holding one visit, 'visit-1' of 'patient-1', with a note encounter.
+ * Every request other than a GET is recorded in `writes`.
+ */
+async function startOpenMRS(visit: Visit) {
+    const writes: Write[] = [];
+    let created = 0;
+
+    const answer = (method: string, api: 'fhir' | 'rest', path: string, query: URLSearchParams): any => {
+        const bundle = (resources: any[]) => ({ entry: resources.map(resource => ({ resource })), link: [] });
+
+        if (api === 'fhir') {
+            if (method === 'POST') return { id: `created-${++created}` };
+            if (method === 'PUT') return {};
+            if (path === '/Encounter/visit-1') return { id: 'visit-1', subject: { reference: 'Patient/patient-1' } };
+            if (path === '/Encounter' && query.get('type') === DEFAULT_ENCOUNTER_TYPES.visitNote) {
+                return bundle([{ id: 'note-1', partOf: { reference: 'Encounter/visit-1' } }]);
+            }
+            if (path === '/Encounter' && query.get('type') === DEFAULT_ENCOUNTER_TYPES.order && visit.orders) {
+                return bundle([{ id: 'order-encounter-1', partOf: { reference: 'Encounter/visit-1' } }]);
+            }
+            if (path === '/Observation') return bundle([{ id: 'note-obs-1', valueString: 'Fever.' }]);
+            return bundle([]);
+        }
+
+        if (method !== 'GET') return { uuid: `created-${++created}` };
+        if (path === '/encounter/note-1') return { uuid: 'note-1', diagnoses: visit.diagnoses || [] };
+        if (path === '/encounter/order-encounter-1') return { uuid: 'order-encounter-1', orders: visit.orders || [] };
+        if (path === '/concept') return { results: CONCEPTS };
+        if (path === '/drug') return { results: DRUGS };
+        if (path === '/orderfrequency') return { results: [{ uuid: 'frequency-tid', display: 'Three times daily', concept: { uuid: 'concept-tid', names: [] } }] };
+        if (path === '/orderentryconfig') return {};
+        return { results: [] };
+    };
+
+    const server = http.createServer((req, res) => {
+        let body = '';
+        req.on('data', chunk => body += chunk);
+        req.on('end', () => {
+            const url = new URL(req.url!, 'http://openmrs');
+            const api = url.pathname.startsWith('/ws/fhir2/R4') ? 'fhir' : 'rest';
+            const path = url.pathname.replace(/^\/ws\/(fhir2\/R4|rest\/v1)/, '');
+
+            if (req.method !== 'GET') writes.push({ method: req.method!, path, body: body ? JSON.parse(body) : undefined });
+            res.setHeader('Content-Type', 'application/json');
+            res.end(JSON.stringify(answer(req.method!, api, path, url.searchParams)));
+        });
+    });
+    await new Promise<void>(resolve => server.listen(0, resolve));
+    const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    const api = createOpenMRSApi({
+        frontendUrl: `${baseUrl}/openmrs/spa`,
+        restBaseUrl: `${baseUrl}/ws/rest/v1`,
+        fhirBaseUrl: `${baseUrl}/ws/fhir2/R4`,
+        auth: { method: 'basic', username: 'admin', password: 'secret' },
+        defaultLocationUuid: 'location-1',
+        defaultPractitionerUuid: 'provider-1',
+        encounterTypes: DEFAULT_ENCOUNTER_TYPES,
+        conceptCacheTtlMinutes: 60,
+        conceptMatchThreshold: 0.9,
+        medTemplatesTtlMinutes: 60,
+        orderSafetyPolicy: parseSafetyPolicy(undefined),
+        problemListPolicy: 'off',
+        resilience: { timeoutMs: 1000, maxRetries: 0, retryBaseDelayMs: 1, breakerThreshold: 100, breakerCooldownMs: 100 },
+    });
+
+    return {
+        api,
+        writes,
+        close: () => {
+            server.closeAllConnections();
+            server.close();
+        },
+    };
+}
+
+const updateNote = (notesJson: { [section: string]: any }): any =>
+    ({ encounter_id: 'visit-1', patient_id: 'patient-1', note_title: 'Visit', notes_json: { 'Clinical Note': 'Fever for three days.', ...notesJson } });
+
+const itemsOf = (items: any[], kind: string) => items.filter(i => i.kind === kind).map(i => ({ name: i.name, action: i.action, status: i.status }));
+
+test("a note's diagnoses are reconciled with the visit's", async () => {
+    const openmrs = await startOpenMRS({
+        diagnoses: [
+            { uuid: 'diagnosis-1', display: 'Malaria', diagnosis: { coded: { uuid: 'concept-malaria' } }, rank: 1, certainty: 'CONFIRMED', voided: false },
+            { uuid: 'diagnosis-2', display: 'Pneumonia', diagnosis: { coded: { uuid: 'concept-pneumonia' } }, rank: 2, certainty: 'PROVISIONAL', voided: false },
+            { uuid: 'diagnosis-3', display: 'Headache', diagnosis: { nonCoded: 'Headache' }, rank: 2, certainty: 'PROVISIONAL', voided: false },
+            { uuid: 'diagnosis-4', display: 'Cough', diagnosis: { nonCoded: 'Cough' }, rank: 2, certainty: 'PROVISIONAL', voided: true },
+        ],
+    });
+
+    try {
+        const result = await openmrs.api.postNote(updateNote({
+            'Diagnoses': [
+                { 'Diagnosis': 'Malaria', 'Certainty': 'Confirmed', 'Rank': 'Primary' },
+                { 'Diagnosis': 'Pneumonia', 'Certainty': 'Confirmed', 'Rank': 'Secondary' },
+                { 'Diagnosis': 'Typhoid fever', 'Certainty': 'Provisional', 'Rank': 'Secondary' },
+            ],
+        }), CONTEXT);
+
+        assert.deepEqual(itemsOf(result.items, 'diagnosis'), [
+            { name: 'Malaria', action: 'unchanged', status: 'success' },
+            { name: 'Pneumonia', action: 'updated', status: 'success' },
+            { name: 'Typhoid fever', action: 'created', status: 'success' },
+            { name: 'Headache', action: 'voided', status: 'success' },
+        ]);
+        assert.deepEqual(openmrs.writes.filter(w => w.path.startsWith('/patientdiagnoses')), [
+            { method: 'POST', path: '/patientdiagnoses/diagnosis-2', body: { certainty: 'Confirmed', rank: 0 } },
+            {
+                method: 'POST', path: '/patientdiagnoses', body: {
+                    patient: 'patient-1', diagnosis: { nonCoded: 'Typhoid fever' }, certainty: 'Provisional', rank: 0, condition: null, encounter: 'note-1',
+                },
+            },
+            { method: 'DELETE', path: '/patientdiagnoses/diagnosis-3', body: undefined },
+        ]);
+    } finally {
+        openmrs.close();
+    }
+});
+
+test("an empty Diagnoses section voids all of the visit's diagnoses, and a missing one leaves them alone", async () => {
+    const openmrs = await startOpenMRS({
+        diagnoses: [
+            { uuid: 'diagnosis-1', display: 'Malaria', diagnosis: { coded: { uuid: 'concept-malaria' } }, rank: 1, certainty: 'CONFIRMED', voided: false },
+            { uuid: 'diagnosis-2', display: 'Headache', diagnosis: { nonCoded: 'Headache' }, rank: 2, certainty: 'PROVISIONAL', voided: false },
+        ],
+    });
+
+    try {
+        const untouched = await openmrs.api.postNote(updateNote({}), CONTEXT);
+        assert.deepEqual(itemsOf(untouched.items, 'diagnosis'), []);
+        assert.deepEqual(openmrs.writes.filter(w => w.path.startsWith('/patientdiagnoses')), []);
+
+        const emptied = await openmrs.api.postNote(updateNote({ 'Diagnoses': [] }), CONTEXT);
+        assert.deepEqual(itemsOf(emptied.items, 'diagnosis'), [
+            { name: 'Malaria', action: 'voided', status: 'success' },
+            { name: 'Headache', action: 'voided', status: 'success' },
+        ]);
+        assert.deepEqual(openmrs.writes.filter(w => w.path.startsWith('/patientdiagnoses')).map(w => `${w.method} ${w.path}`), [
+            'DELETE /patientdiagnoses/diagnosis-1',
+            'DELETE /patientdiagnoses/diagnosis-2',
+        ]);
+    } finally {
+        openmrs.close();
+    }
+});
+
+test("a note's medications are reconciled with the visit's active orders", async () => {
+    const [amoxicillin, paracetamol, ibuprofen] = DRUGS;
+    const openmrs = await startOpenMRS({
+        orders: [
+            drugOrder('order-1', amoxicillin),
+            drugOrder('order-2', paracetamol),
+            drugOrder('order-3', ibuprofen, { dose: 2 }),
+            // No longer active, so neither matched nor discontinued
+            drugOrder('order-4', DRUGS[3], { dateStopped: '2026-10-01T10:00:00.000+0000' }),
+        ],
+    });
+
+    try {
+        const result = await openmrs.api.postNote(updateNote({
+            'Medications': [
+                { ...MEDICATION, 'Name': 'Amoxicillin' },
+                { ...MEDICATION, 'Name': 'Paracetamol', 'Dose': 2, 'Dispense Quantity': 30 },
+                { ...MEDICATION, 'Name': 'Cetirizine', 'Strength': '10 mg' },
+            ],
+        }), CONTEXT);
+
+        assert.deepEqual(itemsOf(result.items, 'medication'), [
+            { name: 'Amoxicillin', action: 'unchanged', status: 'success' },
+            { name: 'Paracetamol', action: 'revised', status: 'success' },
+            { name: 'Cetirizine', action: 'created', status: 'success' },
+            { name: 'Ibuprofen 400 mg', action: 'discontinued', status: 'success' },
+        ]);
+
+        const orders = openmrs.writes.filter(w => w.path === '/order').map(w => w.body);
+        assert.deepEqual(orders.map(o => [o.action, o.drug, o.previousOrder]), [
+            ['REVISE', 'drug-paracetamol', 'order-2'],
+            ['NEW', 'drug-cetirizine', undefined],
+            ['DISCONTINUE', 'drug-ibuprofen', 'order-3'],
+        ]);
+        assert.equal(orders[0].dose, 2);
+        assert.equal(orders[0].quantity, 30);
+        // Each order is written in its own Order encounter under the visit
+        assert.equal(openmrs.writes.filter(w => w.path === '/Encounter').length, 3);
+    } finally {
+        openmrs.close();
+    }
+});
+
+test("an empty Medications section discontinues all of the visit's orders, and a missing one leaves them alone", async () => {
+    const openmrs = await startOpenMRS({ orders: [drugOrder('order-1', DRUGS[0]), drugOrder('order-2', DRUGS[1])] });
+
+    try {
+        const untouched = await openmrs.api.postNote(updateNote({}), CONTEXT);
+        assert.deepEqual(itemsOf(untouched.items, 'medication'), []);
+        assert.deepEqual(openmrs.writes.filter(w => w.path === '/order'), []);
+
+        const emptied = await openmrs.api.postNote(updateNote({ 'Medications': [] }), CONTEXT);
+        assert.deepEqual(itemsOf(emptied.items, 'medication'), [
+            { name: 'Amoxicillin 500 mg', action: 'discontinued', status: 'success' },
+            { name: 'Paracetamol 500 mg', action: 'discontinued', status: 'success' },
+        ]);
+        assert.deepEqual(openmrs.writes.filter(w => w.path === '/order').map(w => [w.body.action, w.body.previousOrder]), [
+            ['DISCONTINUE', 'order-1'],
+            ['DISCONTINUE', 'order-2'],
+        ]);
+    } finally {
+        openmrs.close();
+    }
+});
+
+test('no order is discontinued while a medication of the note cannot be resolved', async () => {
+    const openmrs = await startOpenMRS({ orders: [drugOrder('order-1', DRUGS[0])] });
+
+    try {
+        const result = await openmrs.api.postNote(updateNote({
+            'Medications': [{ ...MEDICATION, 'Name': 'Unknown drug' }],
+        }), CONTEXT);
+
+        assert.deepEqual(itemsOf(result.items, 'medication'), [
+            { name: 'Unknown drug', action: 'created', status: 'failed' },
+            { name: 'Amoxicillin 500 mg', action: 'discontinued', status: 'failed' },
+        ]);
+        assert.deepEqual(openmrs.writes.filter(w => w.path === '/order'), []);
+    } finally {
+        openmrs.close();
+    }
+});
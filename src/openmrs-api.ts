@@ -1,115 +1,87 @@
 import axios from 'axios';
-import dotenv from 'dotenv';
 import { components } from './emr-api-types';
-import { convertKeysToSnakeCase, jsonToMarkdown, type KeysToTitleCase } from './utils';
-
-dotenv.config();
-
-const {
-    OPENMRS_REST_BASE_URL,
-    OPENMRS_FHIR_BASE_URL, 
-    OPENMRS_USERNAME, 
-    OPENMRS_PASSWORD,
-    OPENMRS_DEFAULT_LOCATION_UUID,
-    OPENMRS_DEFAULT_PRACTITIONER_UUID,
-} = process.env;
-
-const requiredEnvVars = [
-    'OPENMRS_REST_BASE_URL',
-    'OPENMRS_FHIR_BASE_URL', 
-    'OPENMRS_USERNAME', 
-    'OPENMRS_PASSWORD',
-    'OPENMRS_DEFAULT_LOCATION_UUID',
-    'OPENMRS_DEFAULT_PRACTITIONER_UUID',
-];
-
-const encounterVisitTypes = {
-    "OPD Visit": "287463d3-2233-4c69-9851-5841a1f5e109",
-    "Facility Visit": "7b0f5697-27e3-40c4-8bae-f4049abfb4ed",
-    "Home Visit": "d66e9fe0-7d51-4801-a550-5d462ad1c944",
-}
-
-const encounterNoteTypes = {
-    "Visit Note": "d7151f82-c1f3-4152-a605-2f9ea7414a79",
-}
-
-const encounterOrderTypes = {
-    "Order": "39da3525-afe4-45ff-8977-c53b7b359158",
-}
-
-const missingEnvVars = requiredEnvVars.filter(varName => !process.env[varName]);
+import { CompensationLog } from './compensation';
+import { ConceptNotFoundError, ConceptResolver, type ConceptKind, type ResolvedConcept } from './concept-resolver';
+import { checkOrderSafety, loadTherapeuticClasses, parseSafetyPolicy, type SafetyContext, type SafetyFinding, type SafetyPolicy } from './order-safety';
+import { TerminologyMap } from './terminology-map';
+import { pickWriteContext, ProviderMap, WriteContextError, type WriteContext, type WriteContextRequest } from './write-context';
+import { parseVitals, VITAL_SIGNS, type VitalMeasurement } from './vitals';
+import { convertKeysToSnakeCase, jsonToMarkdown } from './utils';
+import { validateNoteForm, type Allergy, type Diagnosis, type LabOrder, type MedicationOrder, type ResolvedProblem } from './note-schema';
+import { failureMessage, failureReason, ITEM_FAILURE_REASONS, type NoteItemResult } from './note-results';
+import { runDry, supportDryRun } from './dry-run';
+import { bypassCircuitBreakers, CircuitBreaker, makeResilient, type ResilienceOptions } from './resilient-client';
+import { OPENMRS_AUTH_METHODS, OpenMRSAuth, useOpenMRSAuth, type OpenMRSAuthConfig } from './openmrs-auth';
+import { DEFAULT_PATIENT_PAGE_SIZE, InvalidCursorError, type EmrAdapter, type EmrAdapterDefinition, type EncounterMedication, type EncounterView, type NotePreview, type PatientPage, type PatientSearch, type PostNoteResult, type TenantSettings } from './emr-adapter';
 
-if (missingEnvVars.length > 0) {
-    throw new Error(
-        `Missing required OpenMRS FHIR environment variables. Please check your .env file. Missing: ${missingEnvVars.join(', ')}`
-    );
-}
+/**
+ * The visit and encounter type UUIDs the adapter records notes with.
+ */
+export type EncounterTypeUuids = {
+    visitTypes: { [name: string]: string };
+    visitNote: string;
+    order: string;
+    vitals: string;
+};
 
-// --- Axios instance for the FHIR API ---
-const openmrsFhirApi = axios.create({
-    baseURL: OPENMRS_FHIR_BASE_URL,
-    auth: {
-        username: OPENMRS_USERNAME!,
-        password: OPENMRS_PASSWORD!,
+// As set up in the OpenMRS reference application
+export const DEFAULT_ENCOUNTER_TYPES: EncounterTypeUuids = {
+    visitTypes: {
+        "OPD Visit": "287463d3-2233-4c69-9851-5841a1f5e109",
+        "Facility Visit": "7b0f5697-27e3-40c4-8bae-f4049abfb4ed",
+        "Home Visit": "d66e9fe0-7d51-4801-a550-5d462ad1c944",
     },
-    headers: {
-        'Content-Type': 'application/fhir+json;charset=utf-8',
-        'Accept': 'application/fhir+json',
-    }
-});
+    visitNote: "d7151f82-c1f3-4152-a605-2f9ea7414a79",
+    order: "39da3525-afe4-45ff-8977-c53b7b359158",
+    vitals: "67a71486-1a54-468f-ac3e-7091a9a79584",
+};
 
+export const PROBLEM_LIST_POLICIES = ['confirmed_primary', 'confirmed', 'off'] as const;
 
-// --- Axios instance for the legacy OpenMRS REST API ---
-const openmrsRestApi = axios.create({
-    baseURL: OPENMRS_REST_BASE_URL,
-    auth: {
-        username: OPENMRS_USERNAME!,
-        password: OPENMRS_PASSWORD!,
-    },
-    headers: {
-        'Content-Type': 'application/json',
-    }
-});
+/**
+ * Everything needed to talk to one OpenMRS server, and how notes are written to it.
+ */
+export type OpenMRSConfig = {
+    frontendUrl: string;
+    restBaseUrl: string;
+    fhirBaseUrl: string;
+    auth: OpenMRSAuthConfig;
+    defaultLocationUuid: string;
+    defaultPractitionerUuid: string;
+    encounterTypes: EncounterTypeUuids;
+    // Site files, see the README
+    terminologyMapPath?: string;
+    providerMapPath?: string;
+    therapeuticClassesPath?: string;
+    conceptCacheTtlMinutes: number;
+    conceptMatchThreshold: number;
+    medTemplatesTtlMinutes: number;
+    orderSafetyPolicy: SafetyPolicy;
+    // Which diagnoses are added to the patient's problem list as Conditions
+    problemListPolicy: typeof PROBLEM_LIST_POLICIES[number];
+    // Timeouts, retries and the circuit breaker of both clients
+    resilience: ResilienceOptions;
+};
 
 // --- Use the imported types ---
 type PatientDetails = components['schemas']['PatientDetails'];
 type EncounterDetails = components['schemas']['EncounterDetails'];
 type PostNoteForm = components['schemas']['PostNoteForm'];
-type MedicationOrderFromSchema = components['schemas']['MedicationOrder']
-
-// --- Define the structure for a single diagnosis ---
-type Diagnosis = {
-    diagnosis: string;
-    certainty: 'Confirmed' | 'Provisional';
-    rank: "Primary" | "Secondary"
-};
-
-// the template used on Mercurie should have these fields 
-type Notes = {
-    "Clinical Note": any,
-    "Diagnoses": TitleCaseDiagnosis[],
-    "Medications": TitleCaseMedicationOrder[],
-}
 
-// make the additional properties explicit
-interface MedicationOrder extends MedicationOrderFromSchema {
-    dose: number;
-    dose_unit: string;
-    route: string;
-    frequency: string;
-    patient_instructions: string;
-    prn_reason: string;
-    duration: number;
-    duration_unit: string;
-    dispense_quantity: number;
-    dispense_unit: string;
-    refills: number;
-    indication: string;
+// The sections of a note, converted from the template's Title Case keys
+type NoteSections = {
+    notes: string;
+    // Undefined when the note left the section out, so that an update leaves the visit's own alone
+    medications?: MedicationOrder[];
+    diagnoses?: Diagnosis[];
+    labOrders: LabOrder[];
+    vitals: VitalMeasurement[];
+    allergies: Allergy[];
+    resolvedProblems: ResolvedProblem[];
 };
 
-
-type TitleCaseMedicationOrder = KeysToTitleCase<MedicationOrder>;
-type TitleCaseDiagnosis = KeysToTitleCase<Diagnosis>;
+// OpenMRS records allergens and reactions without a concept against "Other non-coded"
+const OTHER_NON_CODED_CONCEPT_UUID = "5622AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA";
 
 // --- Data Transformation Functions ---
 
@@ -142,779 +114,2348 @@ const transformVisit = (fhirEncounter: any): EncounterDetails => ({
     date: fhirEncounter.period?.end?.split('T')[0],
 });
 
+/**
+ * Order set based templates, tagged with the order set they come from for filtering.
+ */
+type OrderSetTemplate = {
+    order_set: string;
+    template: MedicationOrder;
+};
 
-// --- API Service Functions ---
+type MedicationTemplateSources = {
+    orderSetTemplates: OrderSetTemplate[];
+    formularyTemplates: MedicationOrder[];
+};
 
-export const getPatients = async (): Promise<PatientDetails[]> => {
-    try {
-        // A FHIR search operation on the /Patient endpoint
-        const patients = await getAllFhirQueryResults('/Patient?_summary=true');
-        // FHIR search results are in a 'Bundle' resource, within the 'entry' array
-        return patients?.map((entry: any) => transformPatient(entry.resource)) || [];
-    } catch (error) {
-        console.error("Error fetching FHIR Patients:", error);
-        throw new Error("Failed to fetch patients from OpenMRS FHIR endpoint.");
-    }
+/**
+ * The dosing fields of a legacy REST drug order, with all names resolved to UUIDs.
+ */
+type DrugOrderDosing = {
+    drug: string;
+    dose: number;
+    doseUnits: string;
+    route: string;
+    frequency: string;
+    duration: number;
+    durationUnits: string;
+    quantity: number;
+    quantityUnits: string;
+    numRefills: number;
+    dosingInstructions: string;
+    asNeeded: boolean;
+    asNeededCondition: string;
 };
 
-export const getPatientEncounters = async (patientId: string): Promise<EncounterDetails[]> => {
-    try {
-        // Search for "visit" encounters related to a specific patient
-        const encounters = await getAllFhirQueryResults(`/Encounter?patient=${patientId}&type=${Object.values(encounterVisitTypes).join(",")}&_sort=-date`);
-        return encounters?.map((entry: any) => transformVisit(entry.resource)) || [];
-    } catch (error) {
-        console.error(`Error fetching FHIR Encounters for patient ${patientId}:`, error);
-        throw new Error("Failed to fetch patient encounters from OpenMRS FHIR endpoint.");
-    }
+/**
+ * A drug order that is currently active in one of the visit's child Order encounters.
+ */
+type ExistingDrugOrder = {
+    uuid: string;
+    name: string;
+    drug: string;
+    concept: string;
+    dose: number;
+    doseUnits?: string;
+    route?: string;
+    frequency?: string;
+    frequencyConcept?: string;
+    duration: number;
+    durationUnits?: string;
+    quantity: number;
+    quantityUnits?: string;
+    numRefills: number;
+    dosingInstructions: string;
+    asNeeded: boolean;
+    asNeededCondition: string;
+};
+
+/**
+ * A condition on the patient's problem list, from the legacy REST API.
+ */
+type ExistingCondition = {
+    uuid: string;
+    name: string;
+    coded?: string;
+    nonCoded?: string;
+    clinicalStatus: string;
+    verificationStatus?: string;
+    endDate?: string | null;
 };
 
+// Reverse mapping from FHIR code to our simplified unit
+const reverseDurationUnitMapping: { [key: string]: 'Days' | 'Weeks' | 'Months' } = {
+    'd': 'Days', 
+    'day': 'Days',
+    'wk': 'Weeks', 
+    'week': 'Weeks',
+    'mo': 'Months', 
+    'month': 'Months',
+}
 
 /**
- * Handles posting a note: either creates a new encounter and note,
- * or updates an existing one if an encounter_id is provided.
+ * Maps a FHIR MedicationRequest to the fields of a medication order
+ * @private
  */
-export const postNote = async (noteData: PostNoteForm): Promise<string> => {
-    const { encounter_id, patient_id, note_title } = noteData;
+const transformMedicationRequest = (resource: any): EncounterMedication => {
+    const dose = resource.dosageInstruction?.[0] || {};
+    const dispense = resource.dispenseRequest || {};
+
+    return {
+        id: resource.id as string,
+        name: resource.medicationCodeableConcept?.text || resource.medicationReference?.display,
+        status: resource.status as string,
+        dosage_instruction: dose.text,
+        dose: dose.doseAndRate?.[0].doseQuantity.value || "",
+        dose_unit: dose.doseAndRate?.[0].doseQuantity.unit || "",
+        route: dose.route?.text || "",
+        frequency: dose.timing?.code?.text || "",
+        duration: dispense.expectedSupplyDuration?.value || dose.timing?.repeat?.duration || 0,
+        duration_unit: reverseDurationUnitMapping[dispense.expectedSupplyDuration?.unit] || reverseDurationUnitMapping[dose.timing?.repeat?.durationUnit] || 'Days',
+        dispense_quantity: dispense.quantity?.value || 0,
+        dispense_unit: dispense.quantity?.unit || 'N/A',
+        refills: dispense.numberOfRepeatsAllowed || 0,
+        start_time: dispense.validityPeriod?.start,
+    };
+}
 
-    if ("notes_json" in noteData) {
-        const notes = (noteData.notes_json as Notes)['Clinical Note'];
 
-        const notesMarkdown = typeof(notes) == "string" ? notes : jsonToMarkdown(notes);
+// --- API Service Functions ---
 
-        const diagnoses = (noteData.notes_json as Notes)['Diagnoses'].map(m => convertKeysToSnakeCase(m));
-        const medications = (noteData.notes_json as Notes)['Medications'].map(d => convertKeysToSnakeCase(d));
+/**
+ * Creates the service functions for one OpenMRS server. Each instance has its own clients,
+ * concept lookups, caches and site files, so nothing is shared between servers.
+ */
+export function createOpenMRSApi(config: OpenMRSConfig) {
+
+    // --- Axios instance for the FHIR API ---
+    const openmrsFhirApi = axios.create({
+        baseURL: config.fhirBaseUrl,
+        headers: {
+            'Content-Type': 'application/fhir+json;charset=utf-8',
+            'Accept': 'application/fhir+json',
+        }
+    });
 
-        if (encounter_id) {
-            // --- UPDATE WORKFLOW ---
-            console.log(`Attempting to update note for existing visit: ${encounter_id}`);
-            return await updateVisitNoteAndCreateOrders(patient_id, encounter_id, note_title, notesMarkdown, medications, diagnoses);
-        } else {
-            // --- CREATE WORKFLOW ---
-            console.log(`Attempting to create new visit for patient: ${patient_id}`);
-            if (!patient_id) throw new Error("patient_id is required to create a new encounter.");
-            return await createVisitAndOrders(patient_id, note_title, notesMarkdown, medications, diagnoses);
+
+    // --- Axios instance for the legacy OpenMRS REST API ---
+    const openmrsRestApi = axios.create({
+        baseURL: config.restBaseUrl,
+        headers: {
+            'Content-Type': 'application/json',
         }
-    } else {
-        throw(new Error("Expecting notes in structured JSON format."))
-    }
-};
+    });
 
+    // One session or token for both APIs
+    const auth = new OpenMRSAuth(config.auth, config.restBaseUrl);
+    useOpenMRSAuth(openmrsFhirApi, auth);
+    useOpenMRSAuth(openmrsRestApi, auth);
 
-/**
- * Generates the patient summary 
- */
-export const getPatientSummary = async (patientId: string): Promise<string | null> => {
-    try {
-        const [activeConditions, activeMedications] = await Promise.all([
-            getActiveConditions(patientId),
-            getActiveMedications(patientId),
-        ]);
+    // Both APIs are the same server, so they fail together
+    const breaker = new CircuitBreaker(`OpenMRS at ${config.restBaseUrl}`, config.resilience.breakerThreshold, config.resilience.breakerCooldownMs);
+    makeResilient(openmrsFhirApi, breaker, config.resilience);
+    makeResilient(openmrsRestApi, breaker, config.resilience);
 
+    supportDryRun(openmrsFhirApi, 'fhir');
+    supportDryRun(openmrsRestApi, 'rest');
 
-        let markdownString = ``;
+    // --- Site terminology mappings, checked before any concept search ---
+    const terminologyMap = config.terminologyMapPath ? new TerminologyMap(config.terminologyMapPath) : undefined;
 
-        if (activeConditions && activeConditions.length > 0) {
-            markdownString += markdownString.length > 0 ? `\n---\n\n## Active Conditions\n` : `## Active Conditions\n`;
-            activeConditions.forEach(cond => {
-                markdownString += `- *${cond.name}*\n`;
-            });
-        }
+    // --- Concept and drug lookups, cached across requests ---
+    const conceptResolver = new ConceptResolver(openmrsRestApi, {
+        ttlMs: config.conceptCacheTtlMinutes * 60 * 1000,
+        threshold: config.conceptMatchThreshold,
+        terminologyMap,
+    });
 
-        if (activeMedications && activeMedications.length > 0) {
-            markdownString += markdownString.length > 0 ? `\n---\n\n## Active Medications\n` : `## Active Medications\n`;
-            activeMedications.forEach(med => {
-                markdownString += `- *${med.name}*\n`;
-                markdownString += `  - Started: ${new Date(med.start_time).toDateString()}\n`;
-                markdownString += `  - Dose: ${med.dose} ${med.dose_unit} - ${med.route} - ${med.frequency} - for ${med.duration} ${med.duration_unit} - ${med.dosage_instruction}\n`;
-                markdownString += `  - Dispense: ${med.dispense_quantity} ${med.dispense_unit} - ${med.refills} refills\n`;
-            });
-        }
+    // --- Drug classes for the order safety checks ---
+    const therapeuticClasses = loadTherapeuticClasses(config.therapeuticClassesPath);
 
-        return markdownString;
+    // --- Mercurie users mapped to their OpenMRS provider ---
+    const providerMap = config.providerMapPath ? new ProviderMap(config.providerMapPath) : undefined;
 
-    } catch (error: any) {
-        console.error(`Error fetching summary for FHIR patient ${patientId}:`, error.response?.data || error.message);
-        throw new Error("Failed to fetch patient summary from OpenMRS FHIR endpoint.");
-    }
-};
 
-/**
- * Retrieves the note (Observation) for a given Visit (Encounter).
- */
-export const getEncounterNote = async (visitId: string): Promise<string | null> => {
-    try {
-        // Fetch 'visit note' encounter
-        const visitNoteEncounter = await findChildNoteEncounter(visitId);
-        const visitNoteEncounterId = visitNoteEncounter?.id;
-
-        // Fetch Observation (note text)
-        // There should only be one observation linked to the visit note
-        // And this observation contains the clinical notes
-        const clinicalNoteResponse = visitNoteEncounterId ?
-            (await openmrsFhirApi.get(`/Observation?encounter=${visitNoteEncounterId}`))
-        :
-            null;
-
-        const clinicalNote = clinicalNoteResponse?.data.entry?.[0]?.resource?.valueString || ""
+    const getPatients = async (search: PatientSearch = {}): Promise<PatientPage> => {
+        // Decode up front so a malformed token is reported as such, not as an OpenMRS failure
+        const cursorParams = search.cursor ? decodePatientCursor(search.cursor) : null;
 
-        let markdownString = ""
+        try {
+            let response: any;
 
-        markdownString += `## Diagnoses\n`;
-        
-        if (visitNoteEncounterId) {
-            const diagnoses = await getVisitDiagnoses(visitNoteEncounterId);
-            if (diagnoses && diagnoses.length > 0) {
-                diagnoses.forEach((d: any) => {
-                    markdownString += `- *${d.diagnosis}* - ${d.rank} - ${d.certainty}\n`
-                })
-                markdownString += "\n"
+            if (cursorParams) {
+                // Continue a previous search from the FHIR server's paging snapshot
+                response = await openmrsFhirApi.get('', { params: cursorParams });
             } else {
-                markdownString += 'No diagnoses recorded.\n\n';
+                // A FHIR search operation on the /Patient endpoint
+                const params = new URLSearchParams({ _summary: 'true' });
+                if (search.name) params.append('name', search.name);
+                if (search.identifier) params.append('identifier', search.identifier);
+                if (search.birthdate) params.append('birthdate', search.birthdate);
+                if (search.gender) params.append('gender', search.gender);
+                params.append('_count', String(search.page_size || DEFAULT_PATIENT_PAGE_SIZE));
+
+                response = await openmrsFhirApi.get('/Patient', { params });
             }
-        } else {
-            markdownString += 'No diagnoses recorded.\n\n';
-        }
 
-        markdownString += `## Clinical Note\n${clinicalNote || 'No clinical note recorded.'}\n`;
+            // FHIR search results are in a 'Bundle' resource, within the 'entry' array
+            const nextLink = response.data.link?.find((l: any) => l.relation == "next");
 
-        return markdownString;
+            return {
+                patients: (response.data.entry || []).map((entry: any) => transformPatient(entry.resource)),
+                next_cursor: nextLink ? encodePatientCursor(nextLink.url) : null,
+            };
+        } catch (error) {
+            console.error("Error fetching FHIR Patients:", error);
+            throw new Error("Failed to fetch patients from OpenMRS FHIR endpoint.", { cause: error });
+        }
+    };
 
-    } catch (error: any) {
-        console.error(`Error fetching note for FHIR visit ${visitId}:`, error.response?.data || error.message);
-        throw new Error("Failed to fetch encounter note from OpenMRS FHIR endpoint.");
+    /**
+     * Turns the FHIR "next" link into an opaque continuation token.
+     * Only the query string is kept so a client can never point the adapter at another host.
+     * @private
+     */
+    function encodePatientCursor(nextUrl: string): string {
+        const query = new URL(nextUrl, config.fhirBaseUrl).searchParams.toString();
+        return Buffer.from(query, 'utf8').toString('base64url');
     }
-};
 
+    /**
+     * Reverses `encodePatientCursor`, rejecting tokens that are not FHIR paging queries.
+     * @private
+     */
+    function decodePatientCursor(cursor: string): URLSearchParams {
+        const params = new URLSearchParams(Buffer.from(cursor, 'base64url').toString('utf8'));
+        if (!params.has('_getpages')) {
+            throw new InvalidCursorError();
+        }
+        return params;
+    }
 
-/**
- * Finds the child "Visit Note" encounter attached to a parent "Visit" encounter.
- * @private
- */
-async function findChildNoteEncounter(parentVisitId: string): Promise<any | null> {
-    // OpenMRS doesn't allow encounter query using part-of key
-    try {
-        // Step 1: Fetch the parent encounter to find its patient.
-        const parentVisitResponse = await openmrsFhirApi.get(`/Encounter/${parentVisitId}`);
-        const patientReference = parentVisitResponse.data?.subject?.reference; // e.g., "Patient/uuid"
-
-        if (!patientReference) {
-            console.error(`Could not determine patient for parent visit ${parentVisitId}`);
-            return null;
+    /**
+     * Patients with a visit that has not been ended yet.
+     */
+    const getActiveVisitPatients = async (): Promise<PatientDetails[]> => {
+        try {
+            const visits = await getAllRestQueryResults(`/visit?includeInactive=false&v=custom:(uuid,patient:(uuid))`);
+            return await getPatientsByIds(visits.map((v: any) => v.patient?.uuid));
+        } catch (error: any) {
+            console.error("Error fetching patients with active visits:", error.response?.data || error.message);
+            throw new Error("Failed to fetch patients with an active visit from OpenMRS.", { cause: error });
         }
-        const patientId = patientReference.split('/')[1];
+    };
 
-        // Step 2: Fetch all "Visit Note" encounters for that patient.
-        const allNoteEncounters = await getAllFhirQueryResults(`/Encounter?patient=${patientId}&type=${Object.values(encounterNoteTypes).join(",")}`);
-        if (!allNoteEncounters || allNoteEncounters.length === 0) {
-            return null; // No "Visit Note" encounters found for this patient.
+    /**
+     * Patients with a non-cancelled appointment today, from the OpenMRS appointments module.
+     */
+    const getTodaysAppointmentPatients = async (): Promise<PatientDetails[]> => {
+        try {
+            const today = new Date().toISOString().split('T')[0];
+            const response = await openmrsRestApi.get(`/appointment/all?forDate=${today}`);
+            const appointments: any[] = Array.isArray(response.data) ? response.data : (response.data.results || []);
+
+            const patientIds = appointments
+                .filter(a => a.status !== 'Cancelled')
+                .sort((a, b) => (a.startDateTime || 0) - (b.startDateTime || 0))
+                .map(a => a.patient?.uuid);
+
+            return await getPatientsByIds(patientIds);
+        } catch (error: any) {
+            console.error("Error fetching today's appointments:", error.response?.data || error.message);
+            throw new Error("Failed to fetch today's appointments from the OpenMRS appointments module.", { cause: error });
         }
+    };
 
-        // Step 3: Loop through the results to find the one linked to our parent visit.
-        const targetReference = `Encounter/${parentVisitId}`;
-        const childEncounterEntry = allNoteEncounters.find((entry: any) => 
-            entry.resource?.partOf?.reference === targetReference
-        );
+    /**
+     * Patients with an encounter in the last `days` days in which the user's provider, from the
+     * provider map, took part, most recently seen first.
+     */
+    const getRecentlySeenPatients = async (days: number, user: string): Promise<PatientDetails[]> => {
+        // Not the default practitioner's, which would show every clinician the same list
+        const provider = providerMap?.lookup(user)?.provider;
+        if (!provider) throw new Error(`Mercurie user '${user}' is not mapped to an OpenMRS provider.`);
+
+        try {
+            const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+            const encounters = await getAllFhirQueryResults(`/Encounter?participant=Practitioner/${provider}&date=ge${since}&_sort=-date`);
+            return await getPatientsByIds(encounters.map((entry: any) => entry.resource.subject?.reference?.split('/')[1]));
+        } catch (error: any) {
+            console.error("Error fetching recently seen patients:", error.response?.data || error.message);
+            throw new Error("Failed to fetch recently seen patients from OpenMRS FHIR endpoint.", { cause: error });
+        }
+    };
 
-        return childEncounterEntry?.resource || null;
+    /**
+     * Fetches patients by UUID, keeping the order of first appearance and dropping duplicates.
+     * @private
+     */
+    async function getPatientsByIds(patientIds: (string | undefined)[]): Promise<PatientDetails[]> {
+        const uniqueIds = [...new Set(patientIds.filter((id): id is string => !!id))];
+        const patientsById = new Map<string, PatientDetails>();
+
+        // Keep the search URL short
+        const chunkSize = 50;
+        for (let i = 0; i < uniqueIds.length; i += chunkSize) {
+            const ids = uniqueIds.slice(i, i + chunkSize);
+            const patients = await getAllFhirQueryResults(`/Patient?_id=${ids.join(',')}&_summary=true`);
+            patients.forEach((entry: any) => patientsById.set(entry.resource.id, transformPatient(entry.resource)));
+        }
 
-    } catch (error: any) {
-        console.error(`Error finding child note encounter for parent ${parentVisitId}:`, error.response?.data || error.message);
-        throw new Error(`Failed to find child note for visit ${parentVisitId}.`);
+        return uniqueIds.flatMap(id => patientsById.get(id) || []);
     }
-}
-
-/**
- * Finds the child "Order" encounters attached to a parent "Visit" encounter.
- * @private
- */
-async function findChildOrderEncounters(parentVisitId: string): Promise<any[]> {
-    try {
-        const parentVisitResponse = await openmrsFhirApi.get(`/Encounter/${parentVisitId}`);
-        const patientReference = parentVisitResponse.data?.subject?.reference;
-        if (!patientReference) return [];
-        const patientId = patientReference.split('/')[1];
 
-        const allOrderEncounters = await getAllFhirQueryResults(`/Encounter?patient=${patientId}&type=${Object.values(encounterOrderTypes).join(',')}`);
-        
-        if (allOrderEncounters.length === 0) return [];
+    const getPatientEncounters = async (patientId: string): Promise<EncounterDetails[]> => {
+        try {
+            // Search for "visit" encounters related to a specific patient
+            const encounters = await getAllFhirQueryResults(`/Encounter?patient=${patientId}&type=${Object.values(config.encounterTypes.visitTypes).join(",")}&_sort=-date`);
+            return encounters?.map((entry: any) => transformVisit(entry.resource)) || [];
+        } catch (error) {
+            console.error(`Error fetching FHIR Encounters for patient ${patientId}:`, error);
+            throw new Error("Failed to fetch patient encounters from OpenMRS FHIR endpoint.", { cause: error });
+        }
+    };
 
-        const targetReference = `Encounter/${parentVisitId}`;
-        const childEncounters = allOrderEncounters
-            .filter((entry: any) => entry.resource?.partOf?.reference === targetReference)
-            .map((entry: any) => entry.resource);
 
-        return childEncounters;
+    /**
+     * Handles posting a note: either creates a new encounter and note,
+     * or updates an existing one if an encounter_id is provided.
+     */
+    const postNote = async (noteData: PostNoteForm, ctx: WriteContext): Promise<PostNoteResult> => {
+        const { encounter_id, patient_id, note_title } = noteData;
+        // Throws a NoteValidationError listing every problem before anything is looked up or written
+        const notesJson = validateNoteForm(noteData);
 
-    } catch (error: any) {
-        console.error(`Error finding child order encounters for parent ${parentVisitId}:`, error.response?.data || error.message);
-        throw new Error(`Failed to find child orders for visit ${parentVisitId}.`);
-    }
-}
+        const notes = notesJson['Clinical Note'];
+        const notesMarkdown = typeof(notes) == "string" ? notes : jsonToMarkdown(notes);
 
+        const sections: NoteSections = {
+            notes: notesMarkdown,
+            diagnoses: notesJson['Diagnoses']?.map(m => convertKeysToSnakeCase(m)),
+            medications: notesJson['Medications']?.map(d => convertKeysToSnakeCase(d)),
+            labOrders: (notesJson['Lab Orders'] || []).map(l => convertKeysToSnakeCase(l)),
+            vitals: parseVitals(notesJson['Vitals']),
+            allergies: (notesJson['Allergies'] || []).map(a => convertKeysToSnakeCase(a)),
+            resolvedProblems: (notesJson['Resolved Problems'] || []).map(p => convertKeysToSnakeCase(p)),
+        };
 
-/**
- * Creates a new Encounter and associated note resources.
- * @private
- */
-async function createVisitAndOrders(patientId: string, _noteTitle: string, notes: string, medicationOrders: MedicationOrder[], diagnoses?: Diagnosis[]): Promise<string> {
-    const now = new Date().toISOString();
-
-    // STEP 1: Create the Visit (Encounter)
-    const visitResource = {
-        resourceType: "Encounter",
-        status: "finished",
-        class: { 
-            system: "http://terminology.hl7.org/CodeSystem/v3-ActCode", 
-            code: "AMB", // ambulatory
-        },
-        type: [
-            { 
-                coding: [
-                    {
-                        system: "http://fhir.openmrs.org/code-system/visit-type",
-                        code: encounterVisitTypes['OPD Visit'],
-                        display: "OPD Visit",
-                    }
-                ]
-            }
-        ],
-        subject: { 
-            reference: `Patient/${patientId}` 
-        },
-        period: { 
-            start: now 
-        },
-        location: [
-            {
-                location: {
-                    reference: `Location/${OPENMRS_DEFAULT_LOCATION_UUID}`
-                }
-            }
-        ]
+        if (encounter_id) {
+            // --- UPDATE WORKFLOW ---
+            console.log(`Attempting to update note for existing visit: ${encounter_id}`);
+            return await updateVisitNoteAndCreateOrders(patient_id, encounter_id, note_title, sections, ctx);
+        } else {
+            // --- CREATE WORKFLOW ---
+            console.log(`Attempting to create new visit for patient: ${patient_id}`);
+            return await createVisitAndOrders(patient_id, note_title, sections, ctx);
+        }
     };
 
-    let newVisitId: string;
-
-    try {
-        console.log("STEP 1: Creating Visit (Encounter)...");
-        const visitResponse = await openmrsFhirApi.post('/Encounter', visitResource);
-        newVisitId = visitResponse.data.id;
-        console.log(`-> Success! Created Visit with ID: ${newVisitId}`);
-    } catch (error: any) {
-        console.error("-> FAILURE at Step 1: Could not create Visit.", error.response?.data || error.message);
-        throw new Error("Failed to create the base Visit in OpenMRS.");
-    }
-
-    // --- STEP 2: Create the child "Visit Note" Encounter ---
-    console.log("STEP 2: Creating child 'Visit Note' Encounter...");
-    let newNoteEncounterId: string;
-    try {
-        newNoteEncounterId = (await createVisitNoteEncounter(patientId, newVisitId)).id;
-    } catch (error: any) {
-        console.error("-> FAILURE at Step 2: Could not create 'Visit Note' Encounter.", error.response?.data || error.message);
-        throw new Error("Created the parent Visit, but failed to create the child note encounter.");
-    }
-    
-
-    // --- STEP 3: Create the Observation and link to the "Visit Note" Encounter ---
-    const noteObservationResource = {
-        resourceType: "Observation",
-        status: "final",
-        code: { 
-            coding: [
-                { 
-                    system: "https://cielterminology.org", 
-                    code: "162169", 
-                    display: "Text of encounter note"
-                }
-            ] 
-        },
-        subject: { 
-            reference: `Patient/${patientId}` 
-        },
-        encounter: { 
-            reference: `Encounter/${newNoteEncounterId}` 
-        }, 
-        valueString: notes,
-        effectiveDateTime: now,
+    /**
+     * Runs `postNote` without writing to OpenMRS and returns what it would have written.
+     * Concepts and drugs are resolved, and the chart read, exactly as for a real note.
+     */
+    const previewNote = async (noteData: PostNoteForm, ctx: WriteContext): Promise<NotePreview> => {
+        const { result, writes } = await runDry(() => postNote(noteData, ctx));
+        const { changes: _changes, ...preview } = result;
+        return { ...preview, writes };
     };
 
-    try {
-        console.log("STEP 3: Creating and linking Note (Observation)...");
-        await openmrsFhirApi.post('/Observation', noteObservationResource);
-        console.log(`-> Success! Linked Observation to Visit Note ${newNoteEncounterId}`);
-    } catch (error: any) {
-        console.error("-> FAILURE at Step 3: Could not create Observation.", error.response?.data || error.message);
-        throw new Error("Created Visit and Note Encounter, but failed to link the clinical note observation.");
-    }
 
-    // --- STEP 4: Create Medication Orders ---
-    if (medicationOrders && medicationOrders.length > 0) {
-        console.log("STEP 4: Creating Medication Orders via legacy REST API...");
-        const parentVisitUuid = newVisitId; 
+    /**
+     * Works out the provider, location and visit type of a note from the request, the provider map
+     * and the env defaults, checking that the provider and location exist in OpenMRS.
+     * The visit type may be given by name ("OPD Visit") or UUID.
+     */
+    const resolveWriteContext = async (request: WriteContextRequest): Promise<WriteContext> => {
+        const picked = pickWriteContext(request, providerMap, {
+            provider: config.defaultPractitionerUuid,
+            location: config.defaultLocationUuid,
+            visitType: 'OPD Visit',
+        });
 
-        for (const order of medicationOrders) {
-            await createDrugOrder(patientId, parentVisitUuid, order);
+        // Only the known visit types are listed by getPatientEncounters
+        const visitTypes = config.encounterTypes.visitTypes;
+        const visitTypeName = Object.keys(visitTypes).find(name =>
+            name.toLowerCase() === picked.visitType.trim().toLowerCase() || visitTypes[name] === picked.visitType.trim()
+        );
+        if (!visitTypeName) {
+            throw new WriteContextError(`Unknown visit type '${picked.visitType}'. Expected one of: ${Object.keys(visitTypes).join(', ')}`);
         }
-        console.log("-> Success! Finished creating medication orders.");
-    }
 
-    // --- STEP 5: Process Diagnoses ---
-    if (diagnoses && diagnoses.length > 0) {
-        await processDiagnoses(patientId, newVisitId, diagnoses);
+        await verifyReference('provider', picked.provider);
+        await verifyReference('location', picked.location);
+
+        return { ...picked, visitType: visitTypes[visitTypeName] };
+    };
+
+    // Providers and locations already found in OpenMRS, so each is only checked once
+    const verifiedReferences = new Set<string>();
+
+    /**
+     * Checks that a provider or location UUID exists, throwing a `WriteContextError` if it does not.
+     * @private
+     */
+    async function verifyReference(resource: 'provider' | 'location', uuid: string) {
+        const key = `${resource}/${uuid}`;
+        if (verifiedReferences.has(key)) return;
+
+        try {
+            await openmrsRestApi.get(`/${key}`);
+            verifiedReferences.add(key);
+        } catch (error: any) {
+            if (error.response?.status === 404) throw new WriteContextError(`No ${resource} with UUID '${uuid}' in OpenMRS.`);
+            console.error(`Error checking ${resource} ${uuid}:`, error.response?.data || error.message);
+            throw new Error(`Failed to look up ${resource} ${uuid} in OpenMRS.`, { cause: error });
+        }
     }
 
-    return newVisitId; 
-}
 
+    /**
+     * Generates the patient summary 
+     */
+    const getPatientSummary = async (patientId: string): Promise<string | null> => {
+        try {
+            const [activeAllergies, activeConditions, activeMedications, latestVitals] = await Promise.all([
+                getActiveAllergies(patientId),
+                getActiveConditions(patientId),
+                getActiveMedications(patientId),
+                getLatestVitals(patientId),
+            ]);
+
+
+            let markdownString = ``;
+
+            // Allergies come first, as they matter most when prescribing
+            if (activeAllergies.length > 0) {
+                markdownString += `## Allergies\n`;
+                activeAllergies.forEach(allergy => {
+                    const details = [allergy.reactions.join(', '), allergy.severity].filter(Boolean).join(' - ');
+                    markdownString += `- *${allergy.name}*${details ? ` - ${details}` : ''}\n`;
+                });
+            }
 
-/**
- * Updates an existing Encounter and its associated note (Binary) resource.
- * @private
- */
-async function updateVisitNoteAndCreateOrders(patientId: string, visitId: string, _noteTitle: string, notes: string, medicationOrders: MedicationOrder[], diagnoses?: Diagnosis[]): Promise<string> {
-    try {
-        // --- STEP 1: Find existing child 'Visit Note' Encounter ---
-        console.log(`STEP 1: Finding existing child 'Visit Note' Encounter...`);
-
-        const childNoteEncounter = (await findChildNoteEncounter(visitId)) || (await createVisitNoteEncounter(patientId, visitId));
-        const childNoteEncounterId = childNoteEncounter?.id;
-        
-        console.log(`-> Child encounter ID: ${childNoteEncounterId}.`);
-        
-        // --- STEP 2: Find existing Note Observation ---
-        console.log(`STEP 2: Finding existing Note Observation...`);
-        
-        // Fetch Observation (note text)
-        // There should only be one observation linked to the visit note
-        // And this observation contains the clinical notes
-        const existingNoteResponse = await openmrsFhirApi.get(`/Observation?encounter=${childNoteEncounterId}`);
-        const existingNoteObservation = existingNoteResponse.data.entry?.[0]?.resource;
-        
-        if (existingNoteObservation) {
-            console.log(`-> Found existing Observation ${existingNoteObservation.id}. Updating...`);
-            const updatedNoteResource = { ...existingNoteObservation, valueString: notes };
-            await openmrsFhirApi.put(`/Observation/${existingNoteObservation.id}`, updatedNoteResource);
-            console.log(`-> Success! Updated existing Observation.`);
-        } else {
+            if (activeConditions && activeConditions.length > 0) {
+                markdownString += markdownString.length > 0 ? `\n---\n\n## Active Conditions\n` : `## Active Conditions\n`;
+                activeConditions.forEach(cond => {
+                    markdownString += `- *${cond.name}*\n`;
+                });
+            }
 
-             console.log(`-> No existing Observation found. Creating a new one...`);
+            if (activeMedications && activeMedications.length > 0) {
+                markdownString += markdownString.length > 0 ? `\n---\n\n## Active Medications\n` : `## Active Medications\n`;
+                activeMedications.forEach(med => {
+                    markdownString += `- *${med.name}*\n`;
+                    markdownString += `  - Started: ${new Date(med.start_time).toDateString()}\n`;
+                    markdownString += `  - Dose: ${med.dose} ${med.dose_unit} - ${med.route} - ${med.frequency} - for ${med.duration} ${med.duration_unit} - ${med.dosage_instruction}\n`;
+                    markdownString += `  - Dispense: ${med.dispense_quantity} ${med.dispense_unit} - ${med.refills} refills\n`;
+                });
+            }
 
-             const newNoteResource = {
-                resourceType: "Observation",
-                status: "final",
-                code: { 
-                    coding: [
-                        { 
-                            system: "https://cielterminology.org", 
-                            code: "162169", 
-                            display: "Text of encounter note"
-                        }
-                    ] 
-                },
-                subject: { 
-                    reference: childNoteEncounter.subject.reference,
-                },
-                encounter: { 
-                    reference: `Encounter/${childNoteEncounterId}` 
-                }, 
-                valueString: notes,
-                effectiveDateTime: new Date().toISOString()
-            };
+            if (latestVitals.length > 0) {
+                markdownString += markdownString.length > 0 ? `\n---\n\n## Latest Vitals\n` : `## Latest Vitals\n`;
+                latestVitals.forEach(vital => {
+                    markdownString += `- *${vital.name}*: ${vital.value} ${vital.unit} (${new Date(vital.date).toDateString()})\n`;
+                });
+            }
 
-             await openmrsFhirApi.post('/Observation', newNoteResource);
-             console.log(`-> Success! Created new Observation for child encounter.`);
-        }
+            return markdownString;
 
-        // --- STEP 3: Process Diagnoses ---
-        if (diagnoses && diagnoses.length > 0) {
-            await processDiagnoses(patientId, visitId, diagnoses);
+        } catch (error: any) {
+            console.error(`Error fetching summary for FHIR patient ${patientId}:`, error.response?.data || error.message);
+            throw new Error("Failed to fetch patient summary from OpenMRS FHIR endpoint.", { cause: error });
         }
+    };
 
-        // --- STEP 4: Create Medication Orders ---
-        if (medicationOrders && medicationOrders.length > 0) {
-            console.log("STEP 3: Creating Medication Orders via legacy REST API...");
-            for (const order of medicationOrders) {
-                await createDrugOrder(patientId, visitId, order);
-            }
-            console.log("-> Success! Finished creating medication orders.");
+
+    /**
+     * Retrieves the diagnoses, orders, vitals and note of a given Visit (Encounter).
+     * Returns null when there is no such visit.
+     */
+    const getEncounterView = async (visitId: string): Promise<EncounterView | null> => {
+        let visit: any;
+        try {
+            visit = (await openmrsFhirApi.get(`/Encounter/${visitId}`)).data;
+        } catch (error: any) {
+            if (error.response?.status === 404) return null;
+            console.error(`Error fetching FHIR visit ${visitId}:`, error.response?.data || error.message);
+            throw new Error("Failed to fetch encounter from OpenMRS FHIR endpoint.", { cause: error });
         }
 
-        return visitId;
-    } catch (error: any) {
-        console.error(`-> FAILURE during update for visit ${visitId}:`, error.response?.data || error.message);
-        throw new Error(`Failed to update visit/note for visit ${visitId}.`);
-    }
-}
+        try {
+            // Fetch 'visit note' encounter
+            const visitNoteEncounter = await findChildNoteEncounter(visitId);
+            const visitNoteEncounterId = visitNoteEncounter?.id;
+
+            // Fetch Observation (note text)
+            // There should only be one observation linked to the visit note
+            // And this observation contains the clinical notes
+            const clinicalNoteResponse = visitNoteEncounterId ?
+                (await openmrsFhirApi.get(`/Observation?encounter=${visitNoteEncounterId}`))
+            :
+                null;
+
+            const [diagnoses, medications, labOrders, vitals] = await Promise.all([
+                visitNoteEncounterId ? getVisitDiagnoses(visitNoteEncounterId) : Promise.resolve([]),
+                getVisitMedications(visitId),
+                getVisitLabOrders(visitId),
+                getVisitVitals(visitId),
+            ]);
+
+            // The note encounter carries the provider; the visit itself usually has no participants
+            const participant = visitNoteEncounter?.participant?.[0] || visit.participant?.[0];
 
-/**
- * Checks for existing diagnoses by name and creates any that are new for the patient.
- * @private
- */
-async function processDiagnoses(patientId: string, visitId: string, diagnoses: Diagnosis[]): Promise<void> {
-    console.log("STEP: Processing diagnoses...");
-    try {
-        // TODO:
-        // To update the dignoses, we remove all existing diagnoses and add the new ones
-        // we can improve this by adding a diffing logic and not deleting the ones that are unchanged
-
-        const visitNoteEncounter = await findChildNoteEncounter(visitId);
-        const visitNoteEncounterId = visitNoteEncounter.id
-
-        // 1. Remove all existing diagnoses
-        const existingDiagnoses = await getVisitDiagnoses(visitNoteEncounterId);
-        existingDiagnoses.forEach((d: any) => {
-            console.log(`-> Delete existing diagnosis: '${d.diagnosis}'`)
-            openmrsRestApi.delete(`/patientdiagnoses/${d.uuid}`);
-        });
+            return {
+                encounter_id: visitId,
+                date: visit.period?.start || null,
+                provider: participant?.individual?.display || null,
+                location: visit.location?.[0]?.location?.display || null,
+                diagnoses: diagnoses.map((d: any) => ({ diagnosis: d.diagnosis, rank: d.rank, certainty: d.certainty })),
+                medications,
+                lab_orders: labOrders.map(l => ({ test_name: l.name, urgency: l.urgency, date: l.date || null })),
+                vitals,
+                clinical_note: clinicalNoteResponse?.data.entry?.[0]?.resource?.valueString || "",
+            };
 
-        // 2. Add all the new dignoses
-        for (const diagnosis of diagnoses) {
-            console.log(`-> Adding new diagnosis: '${diagnosis.diagnosis}'`);
-            await postVisitDiagnosis(patientId, visitNoteEncounterId, diagnosis);
-            console.log(`   - Success! Created new Condition for '${diagnosis.diagnosis}'.`);
+        } catch (error: any) {
+            console.error(`Error fetching note for FHIR visit ${visitId}:`, error.response?.data || error.message);
+            throw new Error("Failed to fetch encounter note from OpenMRS FHIR endpoint.", { cause: error });
         }
+    };
 
-    } catch (error: any) {
-        const errorMessage = error.response?.data?.error?.message || error.message;
-        console.error(`-> FAILURE during diagnosis processing:`, error.response?.data || error.message);
-        throw new Error(`Failed to process diagnoses for patient ${patientId}: ${errorMessage}`);
-    }
-}
+    /**
+     * Retrieves a given Visit (Encounter) rendered as markdown.
+     * Returns null when there is no such visit.
+     */
+    const getEncounterNote = async (visitId: string): Promise<string | null> => {
+        const view = await getEncounterView(visitId);
+        return view ? renderEncounterNote(view) : null;
+    };
 
+    /**
+     * Renders an encounter view as the markdown note shown in Mercurie.
+     * @private
+     */
+    function renderEncounterNote(view: EncounterView): string {
+        let markdownString = ""
 
-/**
- * Creates a drug order using the OpenMRS legacy REST API.
- * OpenMRS FHIR API does not support drug order creation.
- * @private
- */
-async function createDrugOrder(patientUuid: string, visitEncounterUuid: string, orderData: MedicationOrder) {
-    try {
+        if (view.date) markdownString += `**Date:** ${new Date(view.date).toDateString()}  \n`;
+        if (view.provider) markdownString += `**Provider:** ${view.provider}  \n`;
+        if (view.location) markdownString += `**Location:** ${view.location}  \n`;
+        if (markdownString) markdownString += "\n";
 
-        // --- STEP 1: Create Order Encounter ---
-        const orderEncounterResource = {
-            resourceType: "Encounter",
-            status: "finished",
-            class: { system: "http://terminology.hl7.org/CodeSystem/v3-ActCode", code: "AMB" },
-            type: [{
-                coding: [{
-                    system: "http://fhir.openmrs.org/code-system/encounter-type",
-                    code: encounterOrderTypes["Order"],
-                    display: "Order"
-                }]
-            }],
-            subject: { reference: `Patient/${patientUuid}` },
-            period: { start: new Date().toISOString() },
-            location: [{ location: { reference: `Location/${OPENMRS_DEFAULT_LOCATION_UUID}` } }],
-            partOf: { reference: `Encounter/${visitEncounterUuid}` }
-        };
+        markdownString += `## Diagnoses\n`;
+        if (view.diagnoses.length > 0) {
+            view.diagnoses.forEach(d => {
+                markdownString += `- *${d.diagnosis}* - ${d.rank} - ${d.certainty}\n`
+            })
+            markdownString += "\n"
+        } else {
+            markdownString += 'No diagnoses recorded.\n\n';
+        }
 
-        const response = await openmrsFhirApi.post('/Encounter', orderEncounterResource);
-        const newOrderEncounterId = response.data.id;
-        console.log(`Created new 'Order' encounter: ${newOrderEncounterId}`);
+        markdownString += `## Medications\n`;
+        if (view.medications.length > 0) {
+            view.medications.forEach(med => {
+                const status = med.status !== 'active' ? ` (${capitalizeFirstLetter(med.status)})` : '';
+                markdownString += `- *${med.name}*${status}\n`;
+                markdownString += `  - Dose: ${med.dose} ${med.dose_unit} - ${med.route} - ${med.frequency} - for ${med.duration} ${med.duration_unit}${med.dosage_instruction ? ` - ${med.dosage_instruction}` : ''}\n`;
+                markdownString += `  - Dispense: ${med.dispense_quantity} ${med.dispense_unit} - ${med.refills} refills\n`;
+            });
+            markdownString += "\n"
+        } else {
+            markdownString += 'No medications ordered.\n\n';
+        }
 
-        // --- STEP 2: Create Drug Order using REST API---
-        const drugConceptUuid = await getDrugUuid(orderData.name, orderData.strength);
-
-        const orderPayload = {
-            type: "drugorder",
-            patient: patientUuid,
-            encounter: newOrderEncounterId,
-            action: "NEW",
-            urgency: "ROUTINE",
-            careSetting: "6f0c9a92-6f24-11e3-af88-005056821db0",
-            orderer: OPENMRS_DEFAULT_PRACTITIONER_UUID,
-            drug: drugConceptUuid, 
-            dosingType: "org.openmrs.SimpleDosingInstructions", // Use simple dosing
-            dose: orderData.dose,
-            doseUnits: (await getConceptUuid(orderData.dose_unit)),
-            route: (await getConceptUuid(orderData.route)),
-            frequency: (await getConceptUuid(orderData.frequency)),
-            duration: orderData.duration,
-            durationUnits: (await getConceptUuid(orderData.duration_unit)),
-            quantity: orderData.dispense_quantity,
-            quantityUnits: (await getConceptUuid(orderData.dispense_unit)),
-            numRefills: orderData.refills,
-            dosingInstructions: orderData.patient_instructions,
-            asNeeded: orderData.prn_reason.trim().length > 0,
-            asNeededCondition: orderData.prn_reason,
-            orderReasonNonCoded: orderData.indication,
-        };
+        markdownString += `## Lab Orders\n`;
+        if (view.lab_orders.length > 0) {
+            view.lab_orders.forEach(l => {
+                markdownString += `- *${l.test_name}* - ${l.urgency}${l.date ? ` - ${new Date(l.date).toDateString()}` : ''}\n`
+            })
+            markdownString += "\n"
+        } else {
+            markdownString += 'No lab orders recorded.\n\n';
+        }
 
-        await openmrsRestApi.post('/order', orderPayload);
-        console.log(`   - Successfully created legacy REST API Drug Order for '${orderData.name}'`);
+        markdownString += `## Vitals\n`;
+        if (view.vitals.length > 0) {
+            view.vitals.forEach(vital => {
+                markdownString += `- *${vital.name}*: ${vital.value} ${vital.unit}\n`;
+            });
+            markdownString += "\n"
+        } else {
+            markdownString += 'No vitals recorded.\n\n';
+        }
 
-    } catch (error: any) {
-        console.error(`-> FAILURE: Could not create legacy Drug Order for '${orderData.name}'.`, error.response?.data ? JSON.stringify(error.response?.data, null, 2) : error.message);
+        markdownString += `## Clinical Note\n${view.clinical_note || 'No clinical note recorded.'}\n`;
 
-        const errorDetail = error.response?.data?.error?.message || error.message;
-        if (errorDetail.includes("Concept not found")) {
-             console.error("   -> HINT: The error 'Concept not found' likely means the drug name or a unit name could not be resolved to a valid UUID in OpenMRS. You need to implement a concept lookup.");
-        }
-        throw new Error(`Failed to create Drug Order for ${orderData.name}: ${errorDetail}`);
+        return markdownString;
     }
-}
 
 
-async function createVisitNoteEncounter(patientId: string, visitEncounterId: string): Promise<any> {
+    const MED_TEMPLATES_TTL_MS = config.medTemplatesTtlMinutes * 60 * 1000;
+    let medicationTemplateCache: { loadedAt: number, sources: Promise<MedicationTemplateSources>, refreshing: boolean } | null = null;
 
-    const noteEncounterResource = {
-        resourceType: "Encounter",
-        status: "finished",
-        class: { 
-            system: "http://terminology.hl7.org/CodeSystem/v3-ActCode", 
-            code: "AMB" 
-        },
-        type: [
-            { 
-                coding: [
-                    {
-                        system: "http://fhir.openmrs.org/code-system/encounter-type",
-                        code: encounterNoteTypes["Visit Note"],
-                        display: "Visit Note"
-                }
-                ]
-            }
-        ],
-        subject: { 
-            reference: `Patient/${patientId}` 
-        },
-        period: { 
-            start: new Date().toISOString(),
-        },
-        participant: [
-            { 
-                individual: 
-                { 
-                    reference: `Practitioner/${OPENMRS_DEFAULT_PRACTITIONER_UUID}` 
-                } 
-            }
-        ],
-        location: [
-            { 
-                location: 
-                { 
-                    reference: `Location/${OPENMRS_DEFAULT_LOCATION_UUID}` 
-                } 
+    /**
+     * Medication templates built from the OpenMRS order sets and the drug formulary.
+     * With a specialty (given directly or through the provider's "Specialty" attribute) only the
+     * templates of order sets whose name, description or category mention it are returned.
+     */
+    const getMedicationTemplates = async (filter: { specialty?: string, provider?: string } = {}): Promise<MedicationOrder[]> => {
+        try {
+            const specialty = filter.specialty || (filter.provider ? await getProviderSpecialty(filter.provider) : undefined);
+            const { orderSetTemplates, formularyTemplates } = await getMedicationTemplateSources();
+
+            if (specialty) {
+                const wanted = specialty.toLowerCase();
+                return orderSetTemplates.filter(t => t.order_set.toLowerCase().includes(wanted)).map(t => t.template);
             }
-        ],
-        partOf: { 
-            reference: `Encounter/${visitEncounterId}` 
-        } 
+
+            // Order set dosing takes precedence over the formulary defaults of the same drug
+            const key = (t: MedicationOrder) => `${t.name} ${t.strength}`.toLowerCase();
+            const orderSetDrugs = new Set(orderSetTemplates.map(t => key(t.template)));
+            return [
+                ...orderSetTemplates.map(t => t.template),
+                ...formularyTemplates.filter(t => !orderSetDrugs.has(key(t))),
+            ];
+        } catch (error: any) {
+            console.error("Error fetching medication templates:", error.response?.data || error.message);
+            throw new Error("Failed to fetch medication templates from OpenMRS.", { cause: error });
+        }
     };
 
-    const noteEncounterResponse = await openmrsFhirApi.post('/Encounter', noteEncounterResource);
-    const newNoteEncounter = noteEncounterResponse.data;
+    /**
+     * Returns the cached template sources, refreshing them in the background once they are older
+     * than MED_TEMPLATES_TTL_MINUTES. If a refresh fails the previous templates are kept.
+     * @private
+     */
+    async function getMedicationTemplateSources(): Promise<MedicationTemplateSources> {
+        if (!medicationTemplateCache) {
+            const sources = loadMedicationTemplateSources();
+            medicationTemplateCache = { loadedAt: Date.now(), sources, refreshing: false };
+            sources.catch(() => { medicationTemplateCache = null; });
+            return sources;
+        }
 
-    return  newNoteEncounter
-}
+        const cache = medicationTemplateCache;
+        if (Date.now() - cache.loadedAt > MED_TEMPLATES_TTL_MS && !cache.refreshing) {
+            cache.refreshing = true;
+            const sources = loadMedicationTemplateSources();
+            sources
+                .then(() => { medicationTemplateCache = { loadedAt: Date.now(), sources, refreshing: false }; })
+                .catch((error: any) => {
+                    console.error("Could not refresh medication templates, keeping the previous ones:", error.message);
+                    cache.refreshing = false;
+                });
+        }
+
+        return cache.sources;
+    }
 
+    /**
+     * @private
+     */
+    async function loadMedicationTemplateSources(): Promise<MedicationTemplateSources> {
+        console.log("Loading medication templates from OpenMRS order sets and drug formulary...");
 
+        const [orderSets, drugs] = await Promise.all([
+            getAllRestQueryResults('/orderset?v=full'),
+            getAllRestQueryResults('/drug?v=custom:(uuid,name,strength,retired,dosageForm:(display),route:(display))'),
+        ]);
 
-async function getDrugUuid(name: string, strength: string) {
-    const fullName = name + " " + strength;
+        const orderSetTemplates = orderSets
+            .filter((set: any) => !set.retired)
+            .flatMap((set: any) => {
+                const label = [set.name, set.description, set.category?.display].filter(Boolean).join(' ');
+                return (set.orderSetMembers || [])
+                    .filter((member: any) => !member.retired && member.orderTemplate)
+                    .flatMap((member: any) => {
+                        const template = parseOrderSetMember(member);
+                        return template ? [{ order_set: label, template }] : [];
+                    });
+            });
 
-    try {
-        const response = await openmrsRestApi.get(`/drug?q=${encodeURIComponent(name)}`);
-        const concept = response.data.results.find((c: any) => c.display.toLowerCase().replaceAll(" ", "") === fullName.toLowerCase().replaceAll(" ", ""));
-        if (concept) {
-            return concept.uuid;
-        }
-        throw new Error(`Drug UUID not found for '${fullName}'`);
-    } catch (error) {
-        console.error(`Error fetching drug UUID for '${fullName}':`, error);
-        throw error;
-    }
-}
+        const formularyTemplates = drugs
+            .filter((drug: any) => !drug.retired)
+            .map((drug: any): MedicationOrder => {
+                const strength = drug.strength || '';
+                const name = strength && drug.name.endsWith(strength) ? drug.name.slice(0, -strength.length).trim() : drug.name;
+                const doseUnit = drug.dosageForm?.display || '';
+                return {
+                    name,
+                    strength,
+                    dose: 1,
+                    dose_unit: doseUnit,
+                    route: drug.route?.display || '',
+                    frequency: '',
+                    patient_instructions: '',
+                    prn: false,
+                    prn_reason: '',
+                    duration: 0,
+                    duration_unit: 'Days',
+                    dispense_quantity: 0,
+                    dispense_unit: doseUnit,
+                    refills: 0,
+                    indication: '',
+                };
+            });
 
+        console.log(`-> Loaded ${orderSetTemplates.length} order set templates and ${formularyTemplates.length} formulary drugs.`);
+        return { orderSetTemplates, formularyTemplates };
+    }
 
-async function getConceptUuid(name: string): Promise<string> {
-    try {
-        const response = await openmrsRestApi.get(`/concept?q=${encodeURIComponent(name)}`);
-        const concept = response.data.results.find((c: any) => c.display.toLowerCase() === name.toLowerCase());
-        if (concept) {
-            return concept.uuid;
+    /**
+     * Turns an order set member's JSON order template into a medication template.
+     * Values may be plain names or references with a display.
+     * @private
+     */
+    function parseOrderSetMember(member: any): MedicationOrder | null {
+        let template: any;
+        try {
+            template = JSON.parse(member.orderTemplate);
+        } catch (_err) {
+            console.warn(`Skipping order set member ${member.uuid}: its order template is not valid JSON.`);
+            return null;
         }
-        throw new Error(`Concept UUID not found for '${name}'`);
-    } catch (error) {
-        console.error(`Error fetching concept UUID for '${name}':`, error);
-        throw error;
+
+        const drug = template.drug;
+        if (!drug) return null;
+
+        const text = (value: any) => (typeof value === 'object' && value !== null ? value.display || value.name || '' : value ?? '');
+        const dosing = template.dosingInstructions || template;
+        const asNeededCondition = text(dosing.asNeededCondition);
+
+        return {
+            name: text(drug.concept) || drug.name || text(drug),
+            strength: drug.strength || '',
+            dose: Number(dosing.dose) || 1,
+            dose_unit: text(dosing.units || dosing.doseUnits),
+            route: text(dosing.route),
+            frequency: text(dosing.frequency),
+            patient_instructions: text(dosing.patientInstructions || dosing.dosingInstructions),
+            prn: !!dosing.asNeeded,
+            prn_reason: asNeededCondition,
+            duration: Number(dosing.duration) || 0,
+            duration_unit: text(dosing.durationUnits) || 'Days',
+            dispense_quantity: Number(dosing.quantity) || 0,
+            dispense_unit: text(dosing.quantityUnits || dosing.dispensingUnits),
+            refills: Number(dosing.numRefills) || 0,
+            indication: text(dosing.indication || template.orderReason),
+        };
     }
-}
 
+    /**
+     * Reads a provider's specialty from a provider attribute whose type mentions "specialty".
+     * @private
+     */
+    async function getProviderSpecialty(providerUuid: string): Promise<string | undefined> {
+        const response = await openmrsRestApi.get(`/provider/${encodeURIComponent(providerUuid)}?v=custom:(uuid,attributes:(voided,value,attributeType:(display)))`);
+        const attribute = (response.data.attributes || []).find((a: any) =>
+            !a.voided && a.attributeType?.display?.toLowerCase().includes('specialty')
+        );
+        return typeof attribute?.value === 'object' ? attribute.value.display : attribute?.value;
+    }
 
 
-/**
- * Get active conditions for the patient
- * @private
- */
-const getActiveConditions = async (patientId: string) => {
-    const activeConditions = await getAllFhirQueryResults(`/Condition?patient=${patientId}&clinical-status=active`)
-    return (
-        activeConditions
-            .map((entry: any) => { 
-                return {
-                    name: entry.resource.code.text,
+    /**
+     * Checks the terminology map against the server, logs every broken entry and keeps
+     * re-checking it whenever the file is reloaded.
+     */
+    const validateTerminologyMap = async (): Promise<void> => {
+        if (!terminologyMap) return;
+
+        const validate = async () => {
+            try {
+                const problems = await conceptResolver.validateTerminologyMap();
+                if (problems.length === 0) {
+                    console.log(`   Terminology map: all ${terminologyMap.entries().length} entries resolve.`);
+                } else {
+                    console.warn(`   Terminology map: ${problems.length} entries do not resolve:`);
+                    problems.forEach(problem => console.warn(`   - ${problem}`));
                 }
-            })
-    )
-}
+            } catch (error: any) {
+                console.error("Could not validate the terminology map against OpenMRS:", error.message);
+            }
+        };
 
+        terminologyMap.watch(validate);
+        await validate();
+    };
 
-/**
- * Get active medications for the patient
- * @private
- */
-const getActiveMedications = async (patientId: string) => {
-    const medications = await getAllFhirQueryResults(`/MedicationRequest?patient=${patientId}`)
-
-    // Reverse mapping from FHIR code to our simplified unit
-    const reverseDurationUnitMapping: { [key: string]: 'Days' | 'Weeks' | 'Months' } = {
-        'd': 'Days', 
-        'day': 'Days',
-        'wk': 'Weeks', 
-        'week': 'Weeks',
-        'mo': 'Months', 
-        'month': 'Months',
-    }
-
-    const activeMedications = medications
-        .filter((entry: any) => entry.resource.status == "active")
-        .map((entry: any) => {
-            const resource = entry.resource;
-            const dose = resource.dosageInstruction[0];
-            const dispense = resource.dispenseRequest;
-            
+
+    /**
+     * Finds the child "Visit Note" encounter attached to a parent "Visit" encounter.
+     * @private
+     */
+    async function findChildNoteEncounter(parentVisitId: string): Promise<any | null> {
+        // OpenMRS doesn't allow encounter query using part-of key
+        try {
+            // Step 1: Fetch the parent encounter to find its patient.
+            const parentVisitResponse = await openmrsFhirApi.get(`/Encounter/${parentVisitId}`);
+            const patientReference = parentVisitResponse.data?.subject?.reference; // e.g., "Patient/uuid"
+
+            if (!patientReference) {
+                console.error(`Could not determine patient for parent visit ${parentVisitId}`);
+                return null;
+            }
+            const patientId = patientReference.split('/')[1];
+
+            // Step 2: Fetch all "Visit Note" encounters for that patient.
+            const allNoteEncounters = await getAllFhirQueryResults(`/Encounter?patient=${patientId}&type=${config.encounterTypes.visitNote}`);
+            if (!allNoteEncounters || allNoteEncounters.length === 0) {
+                return null; // No "Visit Note" encounters found for this patient.
+            }
+
+            // Step 3: Loop through the results to find the one linked to our parent visit.
+            const targetReference = `Encounter/${parentVisitId}`;
+            const childEncounterEntry = allNoteEncounters.find((entry: any) => 
+                entry.resource?.partOf?.reference === targetReference
+            );
+
+            return childEncounterEntry?.resource || null;
+
+        } catch (error: any) {
+            console.error(`Error finding child note encounter for parent ${parentVisitId}:`, error.response?.data || error.message);
+            throw new Error(`Failed to find child note for visit ${parentVisitId}.`, { cause: error });
+        }
+    }
+
+    /**
+     * Finds the child "Order" encounters attached to a parent "Visit" encounter.
+     * @private
+     */
+    async function findChildOrderEncounters(parentVisitId: string): Promise<any[]> {
+        try {
+            const parentVisitResponse = await openmrsFhirApi.get(`/Encounter/${parentVisitId}`);
+            const patientReference = parentVisitResponse.data?.subject?.reference;
+            if (!patientReference) return [];
+            const patientId = patientReference.split('/')[1];
+
+            const allOrderEncounters = await getAllFhirQueryResults(`/Encounter?patient=${patientId}&type=${config.encounterTypes.order}`);
+
+            if (allOrderEncounters.length === 0) return [];
+
+            const targetReference = `Encounter/${parentVisitId}`;
+            const childEncounters = allOrderEncounters
+                .filter((entry: any) => entry.resource?.partOf?.reference === targetReference)
+                .map((entry: any) => entry.resource);
+
+            return childEncounters;
+
+        } catch (error: any) {
+            console.error(`Error finding child order encounters for parent ${parentVisitId}:`, error.response?.data || error.message);
+            throw new Error(`Failed to find child orders for visit ${parentVisitId}.`, { cause: error });
+        }
+    }
+
+
+    /**
+     * Finds the child "Vitals" encounter attached to a parent "Visit" encounter.
+     * @private
+     */
+    async function findChildVitalsEncounter(parentVisitId: string): Promise<any | null> {
+        try {
+            const parentVisitResponse = await openmrsFhirApi.get(`/Encounter/${parentVisitId}`);
+            const patientReference = parentVisitResponse.data?.subject?.reference;
+            if (!patientReference) return null;
+            const patientId = patientReference.split('/')[1];
+
+            const allVitalsEncounters = await getAllFhirQueryResults(`/Encounter?patient=${patientId}&type=${config.encounterTypes.vitals}`);
+
+            const targetReference = `Encounter/${parentVisitId}`;
+            return allVitalsEncounters.find((entry: any) => entry.resource?.partOf?.reference === targetReference)?.resource || null;
+
+        } catch (error: any) {
+            console.error(`Error finding child vitals encounter for parent ${parentVisitId}:`, error.response?.data || error.message);
+            throw new Error(`Failed to find child vitals for visit ${parentVisitId}.`, { cause: error });
+        }
+    }
+
+
+    /**
+     * Creates a new Encounter and associated note resources.
+     * A diagnosis or medication that fails is reported in `items`; if any other step fails,
+     * the resources already created are voided and a `RollbackError` is thrown.
+     * @private
+     */
+    async function createVisitAndOrders(patientId: string, _noteTitle: string, sections: NoteSections, ctx: WriteContext): Promise<PostNoteResult> {
+        // Undone even if the failure opened the breaker, so that an outage does not leave a partial note
+        const log = new CompensationLog(bypassCircuitBreakers);
+        try {
+            return await writeVisitAndOrders(log, ctx, patientId, sections);
+        } catch (error) {
+            throw await log.rollbackAfter(error);
+        }
+    }
+
+    /**
+     * The steps of `createVisitAndOrders`, each registering its compensation in `log`.
+     * @private
+     */
+    async function writeVisitAndOrders(log: CompensationLog, ctx: WriteContext, patientId: string, sections: NoteSections): Promise<PostNoteResult> {
+        // A new visit has nothing to leave alone
+        const { notes, medications: medicationOrders = [], diagnoses = [], labOrders, vitals, allergies, resolvedProblems } = sections;
+        const now = new Date().toISOString();
+
+        // STEP 1: Create the Visit (Encounter)
+        const visitResource = {
+            resourceType: "Encounter",
+            status: "finished",
+            class: { 
+                system: "http://terminology.hl7.org/CodeSystem/v3-ActCode", 
+                code: "AMB", // ambulatory
+            },
+            type: [
+                { 
+                    coding: [
+                        {
+                            system: "http://fhir.openmrs.org/code-system/visit-type",
+                            code: ctx.visitType,
+                        }
+                    ]
+                }
+            ],
+            subject: { 
+                reference: `Patient/${patientId}` 
+            },
+            period: { 
+                start: now 
+            },
+            location: [
+                {
+                    location: {
+                        reference: `Location/${ctx.location}`
+                    }
+                }
+            ]
+        };
+
+        let newVisitId: string;
+
+        try {
+            console.log("STEP 1: Creating Visit (Encounter)...");
+            const visitResponse = await openmrsFhirApi.post('/Encounter', visitResource);
+            newVisitId = visitResponse.data.id;
+            log.record(`Visit ${newVisitId}`, () => openmrsFhirApi.delete(`/Encounter/${newVisitId}`), { action: 'created', resource: 'Encounter', id: newVisitId });
+            console.log(`-> Success! Created Visit with ID: ${newVisitId}`);
+        } catch (error: any) {
+            console.error("-> FAILURE at Step 1: Could not create Visit.", error.response?.data || error.message);
+            throw new Error("Failed to create the base Visit in OpenMRS.", { cause: error });
+        }
+
+        // --- STEP 2: Create the child "Visit Note" Encounter ---
+        console.log("STEP 2: Creating child 'Visit Note' Encounter...");
+        let newNoteEncounterId: string;
+        try {
+            newNoteEncounterId = (await createVisitNoteEncounter(log, ctx, patientId, newVisitId)).id;
+        } catch (error: any) {
+            console.error("-> FAILURE at Step 2: Could not create 'Visit Note' Encounter.", error.response?.data || error.message);
+            throw new Error("Created the parent Visit, but failed to create the child note encounter.", { cause: error });
+        }
+
+
+        // --- STEP 3: Create the Observation and link to the "Visit Note" Encounter ---
+        const noteObservationResource = {
+            resourceType: "Observation",
+            status: "final",
+            code: { 
+                coding: [
+                    { 
+                        system: "https://cielterminology.org", 
+                        code: "162169", 
+                        display: "Text of encounter note"
+                    }
+                ] 
+            },
+            subject: { 
+                reference: `Patient/${patientId}` 
+            },
+            encounter: { 
+                reference: `Encounter/${newNoteEncounterId}` 
+            }, 
+            valueString: notes,
+            effectiveDateTime: now,
+        };
+
+        const items: NoteItemResult[] = [];
+        try {
+            console.log("STEP 3: Creating and linking Note (Observation)...");
+            const observationId = (await openmrsFhirApi.post('/Observation', noteObservationResource)).data.id;
+            log.record(`Note Observation ${observationId}`, () => openmrsFhirApi.delete(`/Observation/${observationId}`), { action: 'created', resource: 'Observation', id: observationId });
+            items.push({ kind: 'note', name: 'Clinical Note', action: 'created', status: 'success', uuid: observationId });
+            console.log(`-> Success! Linked Observation to Visit Note ${newNoteEncounterId}`);
+        } catch (error: any) {
+            console.error("-> FAILURE at Step 3: Could not create Observation.", error.response?.data || error.message);
+            throw new Error("Created Visit and Note Encounter, but failed to link the clinical note observation.", { cause: error });
+        }
+
+        // --- STEP 4: Create Medication Orders ---
+        const safetyFindings: SafetyFinding[] = [];
+        if (medicationOrders && medicationOrders.length > 0) {
+            console.log("STEP 4: Creating Medication Orders via legacy REST API...");
+            const parentVisitUuid = newVisitId; 
+            const safetyContext = await getOrderSafetyContext(patientId, allergies);
+
+            for (const order of medicationOrders) {
+                const item = { kind: 'medication', name: order.name, action: 'created' } as const;
+                if (!screenDrugOrder(order, safetyContext, safetyFindings)) {
+                    items.push(blockedItem(item, safetyFindings));
+                    continue;
+                }
+                await writeItem(log, items, item, async () => {
+                    const drug = await conceptResolver.resolveDrug(order.name, order.strength);
+                    return { uuid: await createDrugOrder(log, ctx, patientId, parentVisitUuid, order), concept: drug };
+                });
+            }
+            console.log("-> Finished creating medication orders.");
+        }
+
+        // --- STEP 5: Process Diagnoses ---
+        if (diagnoses && diagnoses.length > 0) {
+            await processDiagnoses(log, items, patientId, newNoteEncounterId, diagnoses);
+        }
+
+        // --- STEP 6: Update the Problem List ---
+        if (diagnoses.length > 0 || resolvedProblems.length > 0) {
+            await updateProblemList(log, items, patientId, diagnoses, resolvedProblems);
+        }
+
+        // --- STEP 7: Create Lab Orders ---
+        if (labOrders.length > 0) {
+            await createLabOrders(log, items, ctx, patientId, newVisitId, labOrders);
+        }
+
+        // --- STEP 8: Record Vitals ---
+        if (vitals.length > 0) {
+            await recordVitals(log, items, ctx, patientId, newVisitId, vitals);
+        }
+
+        // --- STEP 9: Record Allergies ---
+        if (allergies.length > 0) {
+            await recordAllergies(log, items, ctx, patientId, allergies);
+        }
+
+        return { encounter_id: newVisitId, order_safety: safetyFindings, items, changes: log.changes };
+    }
+
+
+    /**
+     * Updates an existing Encounter and its associated note (Binary) resource.
+     * A diagnosis or medication that fails is reported in `items`; if any other step fails,
+     * the changes already made are reverted and a `RollbackError` is thrown.
+     * @private
+     */
+    async function updateVisitNoteAndCreateOrders(patientId: string, visitId: string, _noteTitle: string, sections: NoteSections, ctx: WriteContext): Promise<PostNoteResult> {
+        const { notes, medications: medicationOrders, diagnoses, labOrders, vitals, allergies, resolvedProblems } = sections;
+        const log = new CompensationLog(bypassCircuitBreakers);
+        try {
+            // --- STEP 1: Find existing child 'Visit Note' Encounter ---
+            console.log(`STEP 1: Finding existing child 'Visit Note' Encounter...`);
+
+            const childNoteEncounter = (await findChildNoteEncounter(visitId)) || (await createVisitNoteEncounter(log, ctx, patientId, visitId));
+            const childNoteEncounterId = childNoteEncounter?.id;
+
+            console.log(`-> Child encounter ID: ${childNoteEncounterId}.`);
+
+            // --- STEP 2: Find existing Note Observation ---
+            console.log(`STEP 2: Finding existing Note Observation...`);
+
+            // Fetch Observation (note text)
+            // There should only be one observation linked to the visit note
+            // And this observation contains the clinical notes
+            const existingNoteResponse = await openmrsFhirApi.get(`/Observation?encounter=${childNoteEncounterId}`);
+            const existingNoteObservation = existingNoteResponse.data.entry?.[0]?.resource;
+            const items: NoteItemResult[] = [];
+
+            if (existingNoteObservation) {
+                console.log(`-> Found existing Observation ${existingNoteObservation.id}. Updating...`);
+                const updatedNoteResource = { ...existingNoteObservation, valueString: notes };
+                await openmrsFhirApi.put(`/Observation/${existingNoteObservation.id}`, updatedNoteResource);
+                log.record(`Update of note Observation ${existingNoteObservation.id}`, () => openmrsFhirApi.put(`/Observation/${existingNoteObservation.id}`, existingNoteObservation), { action: 'updated', resource: 'Observation', id: existingNoteObservation.id });
+                items.push({ kind: 'note', name: 'Clinical Note', action: 'updated', status: 'success', uuid: existingNoteObservation.id });
+                console.log(`-> Success! Updated existing Observation.`);
+            } else {
+
+                 console.log(`-> No existing Observation found. Creating a new one...`);
+
+                 const newNoteResource = {
+                    resourceType: "Observation",
+                    status: "final",
+                    code: { 
+                        coding: [
+                            { 
+                                system: "https://cielterminology.org", 
+                                code: "162169", 
+                                display: "Text of encounter note"
+                            }
+                        ] 
+                    },
+                    subject: { 
+                        reference: childNoteEncounter.subject.reference,
+                    },
+                    encounter: { 
+                        reference: `Encounter/${childNoteEncounterId}` 
+                    }, 
+                    valueString: notes,
+                    effectiveDateTime: new Date().toISOString()
+                };
+
+                 const observationId = (await openmrsFhirApi.post('/Observation', newNoteResource)).data.id;
+                 log.record(`Note Observation ${observationId}`, () => openmrsFhirApi.delete(`/Observation/${observationId}`), { action: 'created', resource: 'Observation', id: observationId });
+                 items.push({ kind: 'note', name: 'Clinical Note', action: 'created', status: 'success', uuid: observationId });
+                 console.log(`-> Success! Created new Observation for child encounter.`);
+            }
+
+            // --- STEP 3: Process Diagnoses ---
+            // An empty section still runs, so that removing every diagnosis voids them all
+            if (diagnoses) {
+                await processDiagnoses(log, items, patientId, childNoteEncounterId, diagnoses);
+            }
+
+            // --- STEP 4: Reconcile Medication Orders ---
+            let safetyFindings: SafetyFinding[] = [];
+            // An empty section still runs, so that removing every medication discontinues them all
+            if (medicationOrders) {
+                console.log("STEP 4: Reconciling Medication Orders via legacy REST API...");
+                safetyFindings = await reconcileDrugOrders(log, items, ctx, patientId, visitId, medicationOrders, allergies);
+                console.log("-> Finished reconciling medication orders.");
+            }
+
+            // --- STEP 5: Update the Problem List ---
+            if ((diagnoses && diagnoses.length > 0) || resolvedProblems.length > 0) {
+                await updateProblemList(log, items, patientId, diagnoses || [], resolvedProblems);
+            }
+
+            // --- STEP 6: Create Lab Orders not yet ordered in this visit ---
+            if (labOrders.length > 0) {
+                const orderedTests = new Set((await getVisitLabOrders(visitId)).map(l => l.concept));
+                await createLabOrders(log, items, ctx, patientId, visitId, labOrders, orderedTests);
+            }
+
+            // --- STEP 7: Record Vitals ---
+            if (vitals.length > 0) {
+                await recordVitals(log, items, ctx, patientId, visitId, vitals);
+            }
+
+            // --- STEP 8: Record Allergies ---
+            if (allergies.length > 0) {
+                await recordAllergies(log, items, ctx, patientId, allergies);
+            }
+
+            return { encounter_id: visitId, order_safety: safetyFindings, items, changes: log.changes };
+        } catch (error: any) {
+            console.error(`-> FAILURE during update for visit ${visitId}:`, error.response?.data || error.message);
+            throw await log.rollbackAfter(new Error(`Failed to update visit/note for visit ${visitId}: ${failureMessage(error)}`, { cause: error }));
+        }
+    }
+
+
+    /**
+     * Reconciles the visit note's diagnoses with the incoming ones: matching diagnoses are kept
+     * (rank and certainty updated in place), new ones are created and the ones no longer present are voided.
+     * Each change is reported in `items`; one that OpenMRS refuses does not stop the others.
+     * @private
+     */
+    async function processDiagnoses(log: CompensationLog, items: NoteItemResult[], patientId: string, visitNoteEncounterId: string, diagnoses: Diagnosis[]) {
+        console.log("STEP: Processing diagnoses...");
+
+        let unmatchedDiagnoses: any[];
+        try {
+            unmatchedDiagnoses = await getVisitDiagnoses(visitNoteEncounterId);
+        } catch (error: any) {
+            console.error(`-> FAILURE during diagnosis processing:`, error.response?.data || error.message);
+            throw new Error(`Failed to process diagnoses for patient ${patientId}: ${failureMessage(error)}`, { cause: error });
+        }
+
+        // 1. Match incoming diagnoses to existing ones by coded concept or non-coded text
+        for (const diagnosis of diagnoses) {
+            const concept = await findCodedConcept(diagnosis.diagnosis, 'diagnosis');
+            const conceptId = concept?.uuid || null;
+            const text = diagnosis.diagnosis.trim().toLowerCase();
+
+            const matchIndex = unmatchedDiagnoses.findIndex((d: any) =>
+                (conceptId && d.coded === conceptId) || (d.nonCoded || d.diagnosis || '').trim().toLowerCase() === text
+            );
+
+            if (matchIndex === -1) {
+                // 2. Create the new diagnosis
+                console.log(`-> Adding new diagnosis: '${diagnosis.diagnosis}'`);
+                await writeItem(log, items, { kind: 'diagnosis', name: diagnosis.diagnosis, action: 'created', concept }, async () => {
+                    const diagnosisUuid = await postVisitDiagnosis(patientId, visitNoteEncounterId, diagnosis, conceptId);
+                    log.record(`Diagnosis '${diagnosis.diagnosis}' ${diagnosisUuid}`, () => openmrsRestApi.delete(`/patientdiagnoses/${diagnosisUuid}`), { action: 'created', resource: 'patientdiagnoses', id: diagnosisUuid });
+                    return { uuid: diagnosisUuid };
+                });
+                continue;
+            }
+
+            const [existing] = unmatchedDiagnoses.splice(matchIndex, 1);
+
+            if (existing.rank === diagnosis.rank && existing.certainty === diagnosis.certainty) {
+                items.push({ kind: 'diagnosis', name: diagnosis.diagnosis, action: 'unchanged', status: 'success', uuid: existing.uuid, concept });
+                continue;
+            }
+
+            // 3. Update rank and certainty of the existing diagnosis in place
+            console.log(`-> Updating diagnosis: '${existing.diagnosis}' to ${diagnosis.rank} - ${diagnosis.certainty}`);
+            await writeItem(log, items, { kind: 'diagnosis', name: diagnosis.diagnosis, action: 'updated', uuid: existing.uuid, concept }, async () => {
+                await openmrsRestApi.post(`/patientdiagnoses/${existing.uuid}`, {
+                    "certainty": diagnosis.certainty,
+                    "rank": diagnosis.rank == "Primary" ? 1 : 0,
+                });
+                log.record(`Update of diagnosis '${existing.diagnosis}'`, () => openmrsRestApi.post(`/patientdiagnoses/${existing.uuid}`, {
+                    "certainty": existing.certainty,
+                    "rank": existing.rank == "Primary" ? 1 : 0,
+                }), { action: 'updated', resource: 'patientdiagnoses', id: existing.uuid });
+            });
+        }
+
+        // 4. Void the diagnoses that are no longer in the note
+        for (const d of unmatchedDiagnoses) {
+            console.log(`-> Voiding removed diagnosis: '${d.diagnosis}'`)
+            await writeItem(log, items, { kind: 'diagnosis', name: d.diagnosis, action: 'voided', uuid: d.uuid }, async () => {
+                await openmrsRestApi.delete(`/patientdiagnoses/${d.uuid}`);
+                log.record(`Removal of diagnosis '${d.diagnosis}'`, () => openmrsRestApi.post('/patientdiagnoses', {
+                    "patient": patientId,
+                    "diagnosis": d.coded ? { "coded": d.coded } : { "nonCoded": d.nonCoded },
+                    "certainty": d.certainty,
+                    "rank": d.rank == "Primary" ? 1 : 0,
+                    "condition": null,
+                    "encounter": visitNoteEncounterId,
+                }), { action: 'deleted', resource: 'patientdiagnoses', id: d.uuid });
+            });
+        }
+    }
+
+    /**
+     * Writes one item of the note, such as a diagnosis or medication, with its own compensation, and reports its outcome
+     * in `items`. An item that cannot be resolved or that OpenMRS refuses is reported as failed and the
+     * rest of the note is written; any other failure is rethrown to fail the note.
+     * @private
+     */
+    async function writeItem(log: CompensationLog, items: NoteItemResult[], item: Omit<NoteItemResult, 'status'>, write: () => Promise<Partial<NoteItemResult> | void>): Promise<boolean> {
+        try {
+            const written = await log.item(write);
+            items.push({ ...item, ...written, status: 'success' });
+            return true;
+        } catch (error) {
+            reportItemFailure(items, item, error);
+            return false;
+        }
+    }
+
+    /**
+     * Reports an item as failed, or rethrows an error that must fail the whole note.
+     * @private
+     */
+    function reportItemFailure(items: NoteItemResult[], item: Omit<NoteItemResult, 'status'>, error: unknown) {
+        const reason = failureReason(error);
+        if (!ITEM_FAILURE_REASONS.includes(reason)) throw error;
+
+        const message = failureMessage(error);
+        console.error(`   - FAILURE: ${item.action} ${item.kind} '${item.name}' (${reason}): ${message}`);
+        items.push({ ...item, status: 'failed', reason, error: message });
+    }
+
+    /**
+     * The item for a medication whose order was blocked by the safety checks.
+     * @private
+     */
+    function blockedItem(item: Omit<NoteItemResult, 'status'>, findings: SafetyFinding[]): NoteItemResult {
+        const blocks = findings.filter(f => f.medication === item.name && f.action === 'block');
+        return { ...item, status: 'blocked', error: blocks.map(f => f.message).join(' ') };
+    }
+
+
+    /**
+     * Resolves the drug and unit names of a medication order to OpenMRS UUIDs.
+     * @private
+     */
+    async function resolveDrugOrderDosing(orderData: MedicationOrder): Promise<DrugOrderDosing> {
+        return {
+            drug: await getDrugUuid(orderData.name, orderData.strength),
+            dose: orderData.dose,
+            doseUnits: (await getConceptUuid(orderData.dose_unit, 'doseUnit')),
+            route: (await getConceptUuid(orderData.route, 'route')),
+            frequency: (await getConceptUuid(orderData.frequency, 'frequency')),
+            duration: orderData.duration,
+            durationUnits: (await getConceptUuid(orderData.duration_unit, 'durationUnit')),
+            quantity: orderData.dispense_quantity,
+            quantityUnits: (await getConceptUuid(orderData.dispense_unit, 'dispenseUnit')),
+            numRefills: orderData.refills,
+            dosingInstructions: orderData.patient_instructions,
+            asNeeded: orderData.prn_reason.trim().length > 0,
+            asNeededCondition: orderData.prn_reason,
+        };
+    }
+
+    /**
+     * Creates an "Order" encounter under the visit to hold a new order.
+     * @private
+     */
+    async function createOrderEncounter(log: CompensationLog, ctx: WriteContext, patientUuid: string, visitEncounterUuid: string): Promise<string> {
+        const orderEncounterResource = {
+            resourceType: "Encounter",
+            status: "finished",
+            class: { system: "http://terminology.hl7.org/CodeSystem/v3-ActCode", code: "AMB" },
+            type: [{
+                coding: [{
+                    system: "http://fhir.openmrs.org/code-system/encounter-type",
+                    code: config.encounterTypes.order,
+                    display: "Order"
+                }]
+            }],
+            subject: { reference: `Patient/${patientUuid}` },
+            period: { start: new Date().toISOString() },
+            location: [{ location: { reference: `Location/${ctx.location}` } }],
+            partOf: { reference: `Encounter/${visitEncounterUuid}` }
+        };
+
+        const response = await openmrsFhirApi.post('/Encounter', orderEncounterResource);
+        const newOrderEncounterId = response.data.id;
+        log.record(`Order encounter ${newOrderEncounterId}`, () => openmrsFhirApi.delete(`/Encounter/${newOrderEncounterId}`), { action: 'created', resource: 'Encounter', id: newOrderEncounterId });
+        console.log(`Created new 'Order' encounter: ${newOrderEncounterId}`);
+
+        return newOrderEncounterId;
+    }
+
+    /**
+     * Creates a drug order using the OpenMRS legacy REST API.
+     * OpenMRS FHIR API does not support drug order creation.
+     * With `previousOrderUuid` the order is a REVISE of that order instead of a NEW one.
+     * @private
+     */
+    async function createDrugOrder(log: CompensationLog, ctx: WriteContext, patientUuid: string, visitEncounterUuid: string, orderData: MedicationOrder, options: { dosing?: DrugOrderDosing, previousOrderUuid?: string } = {}): Promise<string> {
+        try {
+
+            // --- STEP 1: Resolve the drug and units ---
+            const dosing = options.dosing || (await resolveDrugOrderDosing(orderData));
+
+            // --- STEP 2: Create Order Encounter ---
+            const newOrderEncounterId = await createOrderEncounter(log, ctx, patientUuid, visitEncounterUuid);
+
+            // --- STEP 3: Create Drug Order using REST API---
+            const orderPayload = {
+                type: "drugorder",
+                patient: patientUuid,
+                encounter: newOrderEncounterId,
+                action: options.previousOrderUuid ? "REVISE" : "NEW",
+                previousOrder: options.previousOrderUuid,
+                urgency: "ROUTINE",
+                careSetting: "6f0c9a92-6f24-11e3-af88-005056821db0",
+                orderer: ctx.provider,
+                dosingType: "org.openmrs.SimpleDosingInstructions", // Use simple dosing
+                ...dosing,
+                orderReasonNonCoded: orderData.indication,
+            };
+
+            const orderUuid = (await openmrsRestApi.post('/order', orderPayload)).data.uuid;
+            log.record(`Drug order for '${orderData.name}' ${orderUuid}`, () => openmrsRestApi.delete(`/order/${orderUuid}`), { action: 'created', resource: 'order', id: orderUuid });
+            console.log(`   - Successfully created legacy REST API Drug Order (${orderPayload.action}) for '${orderData.name}'`);
+            return orderUuid;
+
+        } catch (error: any) {
+            console.error(`-> FAILURE: Could not create legacy Drug Order for '${orderData.name}'.`, error.response?.data ? JSON.stringify(error.response?.data, null, 2) : error.message);
+
+            const errorDetail = error.response?.data?.error?.message || error.message;
+            if (errorDetail.includes("not found")) {
+                 console.error("   -> HINT: The drug name or a unit name could not be resolved to a valid UUID in OpenMRS. Map it to a concept in the terminology map file (TERMINOLOGY_MAP_PATH).");
+            }
+            throw new Error(`Failed to create Drug Order for ${orderData.name}: ${errorDetail}`, { cause: error });
+        }
+    }
+
+    /**
+     * Discontinues an active drug order that is no longer part of the note.
+     * @private
+     */
+    async function discontinueDrugOrder(log: CompensationLog, ctx: WriteContext, patientUuid: string, visitEncounterUuid: string, existingOrder: ExistingDrugOrder): Promise<string> {
+        try {
+            const newOrderEncounterId = await createOrderEncounter(log, ctx, patientUuid, visitEncounterUuid);
+
+            const orderPayload = {
+                type: "drugorder",
+                patient: patientUuid,
+                encounter: newOrderEncounterId,
+                action: "DISCONTINUE",
+                previousOrder: existingOrder.uuid,
+                careSetting: "6f0c9a92-6f24-11e3-af88-005056821db0",
+                orderer: ctx.provider,
+                concept: existingOrder.concept,
+                drug: existingOrder.drug,
+                orderReasonNonCoded: "Removed from the clinical note",
+            };
+
+            const orderUuid = (await openmrsRestApi.post('/order', orderPayload)).data.uuid;
+            log.record(`Discontinuation of '${existingOrder.name}' ${orderUuid}`, () => openmrsRestApi.delete(`/order/${orderUuid}`), { action: 'created', resource: 'order', id: orderUuid });
+            console.log(`   - Successfully discontinued Drug Order for '${existingOrder.name}'`);
+            return orderUuid;
+
+        } catch (error: any) {
+            const errorDetail = error.response?.data?.error?.message || error.message;
+            console.error(`-> FAILURE: Could not discontinue Drug Order for '${existingOrder.name}'.`, error.response?.data || error.message);
+            throw new Error(`Failed to discontinue Drug Order for ${existingOrder.name}: ${errorDetail}`, { cause: error });
+        }
+    }
+
+    /**
+     * Brings the visit's active drug orders in line with the note: unchanged orders are left alone,
+     * changed dosing is written as a REVISE, dropped drugs are discontinued and only new drugs get a NEW order.
+     * New and revised orders go through the safety checks first; a blocked revision leaves the existing order as it is.
+     * Each medication is reported in `items`. While any medication of the note cannot be resolved, no order is
+     * discontinued, as it may be that medication's order.
+     * @private
+     */
+    async function reconcileDrugOrders(log: CompensationLog, items: NoteItemResult[], ctx: WriteContext, patientUuid: string, visitEncounterUuid: string, medicationOrders: MedicationOrder[], noteAllergies: Allergy[]): Promise<SafetyFinding[]> {
+        const unmatchedOrders = await getVisitDrugOrders(visitEncounterUuid);
+        // The visit's own orders are being reconciled here, so they are not duplicates of the note
+        const safetyContext = await getOrderSafetyContext(patientUuid, noteAllergies, unmatchedOrders.map(o => o.uuid));
+        const safetyFindings: SafetyFinding[] = [];
+        let unresolved = 0;
+
+        for (const order of medicationOrders) {
+            let drug: ResolvedConcept;
+            let dosing: DrugOrderDosing;
+            try {
+                drug = await conceptResolver.resolveDrug(order.name, order.strength);
+                dosing = await resolveDrugOrderDosing(order);
+            } catch (error: any) {
+                reportItemFailure(items, { kind: 'medication', name: order.name, action: 'created' }, new Error(`Failed to create Drug Order for ${order.name}: ${error.message}`, { cause: error }));
+                unresolved++;
+                continue;
+            }
+
+            const matchIndex = unmatchedOrders.findIndex(o => o.drug === dosing.drug);
+            if (matchIndex === -1) {
+                console.log(`-> New medication '${order.name}'.`);
+                const item = { kind: 'medication', name: order.name, action: 'created', concept: drug } as const;
+                if (!screenDrugOrder(order, safetyContext, safetyFindings)) {
+                    items.push(blockedItem(item, safetyFindings));
+                    continue;
+                }
+                await writeItem(log, items, item, async () => ({ uuid: await createDrugOrder(log, ctx, patientUuid, visitEncounterUuid, order, { dosing }) }));
+                continue;
+            }
+
+            const [existing] = unmatchedOrders.splice(matchIndex, 1);
+            if (isSameDosing(existing, dosing)) {
+                console.log(`-> Medication '${order.name}' is unchanged.`);
+                items.push({ kind: 'medication', name: order.name, action: 'unchanged', status: 'success', uuid: existing.uuid, concept: drug });
+            } else {
+                console.log(`-> Dosing of '${order.name}' changed. Revising order ${existing.uuid}.`);
+                const item = { kind: 'medication', name: order.name, action: 'revised', concept: drug } as const;
+                if (!screenDrugOrder(order, safetyContext, safetyFindings)) {
+                    items.push(blockedItem(item, safetyFindings));
+                    continue;
+                }
+                await writeItem(log, items, item, async () => ({ uuid: await createDrugOrder(log, ctx, patientUuid, visitEncounterUuid, order, { dosing, previousOrderUuid: existing.uuid }) }));
+            }
+        }
+
+        for (const existing of unmatchedOrders) {
+            const item = { kind: 'medication', name: existing.name, action: 'discontinued' } as const;
+            if (unresolved > 0) {
+                console.log(`-> Not discontinuing '${existing.name}', as not every medication of the note could be resolved.`);
+                items.push({ ...item, status: 'failed', uuid: existing.uuid, reason: 'terminology', error: 'Not discontinued, as not every medication of the note could be resolved.' });
+                continue;
+            }
+            console.log(`-> Medication '${existing.name}' was removed from the note. Discontinuing order ${existing.uuid}.`);
+            await writeItem(log, items, item, async () => ({ uuid: await discontinueDrugOrder(log, ctx, patientUuid, visitEncounterUuid, existing) }));
+        }
+
+        return safetyFindings;
+    }
+
+    /**
+     * The allergies and active orders that new drug orders are checked against. Allergies recorded
+     * in the same note count too, as they are written after the orders.
+     * @private
+     */
+    async function getOrderSafetyContext(patientUuid: string, noteAllergies: Allergy[], excludeOrderUuids: string[] = []): Promise<SafetyContext> {
+        try {
+            const [allergies, activeMedications] = await Promise.all([getActiveAllergies(patientUuid), getActiveMedications(patientUuid)]);
             return {
-                name: resource.medicationCodeableConcept?.text || resource.medicationReference?.display,
-                status: resource.status,
-                dosage_instruction: dose.text,
-                dose: dose.doseAndRate?.[0].doseQuantity.value || "",
-                dose_unit: dose.doseAndRate?.[0].doseQuantity.unit || "",
-                route: dose.route?.text || "",
-                frequency: dose.timing?.code?.text || "",
-                duration: dispense.expectedSupplyDuration?.value || dose.timing?.repeat?.duration || 0,
-                duration_unit: reverseDurationUnitMapping[dispense.expectedSupplyDuration?.unit] || reverseDurationUnitMapping[dose.timing?.repeat?.durationUnit] || 'Days',
-                dispense_quantity: dispense.quantity?.value || 0,
-                dispense_unit: dispense.quantity?.unit || 'N/A',
-                refills: dispense.numberOfRepeatsAllowed || 0,
-                start_time: dispense.validityPeriod.start,
+                allergies: [...allergies, ...noteAllergies.map(a => ({ name: a.allergen }))].filter(a => a.name),
+                activeMedications: activeMedications.filter(m => m.name && !excludeOrderUuids.includes(m.id)),
             };
+        } catch (error: any) {
+            console.error("-> FAILURE: Could not load allergies and active medications for the order safety checks.", error.response?.data || error.message);
+            throw new Error("Failed to load the patient's allergies and active medications for the order safety checks.", { cause: error });
+        }
+    }
+
+    /**
+     * Runs the safety checks on a drug order, adding any findings to `findings`.
+     * Returns false when the order is blocked and must not be written.
+     * @private
+     */
+    function screenDrugOrder(order: MedicationOrder, context: SafetyContext, findings: SafetyFinding[]): boolean {
+        const orderFindings = checkOrderSafety(order.name, context, therapeuticClasses, config.orderSafetyPolicy);
+        findings.push(...orderFindings);
+
+        orderFindings.forEach(f => console.log(`   - Safety ${f.action} for '${order.name}': ${f.message}`));
+        const blocked = orderFindings.some(f => f.action === 'block');
+        if (blocked) console.log(`   - Skipping the order for '${order.name}'.`);
+        return !blocked;
+    }
+
+    /**
+     * Compares an active order with the resolved dosing from the note.
+     * @private
+     */
+    function isSameDosing(existing: ExistingDrugOrder, dosing: DrugOrderDosing): boolean {
+        const sameText = (a?: string | null, b?: string | null) => (a || '').trim() === (b || '').trim();
+
+        return (
+            Number(existing.dose) === Number(dosing.dose) &&
+            existing.doseUnits === dosing.doseUnits &&
+            existing.route === dosing.route &&
+            // The frequency may have been stored as an order frequency or looked up by its concept
+            (existing.frequency === dosing.frequency || existing.frequencyConcept === dosing.frequency) &&
+            Number(existing.duration) === Number(dosing.duration) &&
+            existing.durationUnits === dosing.durationUnits &&
+            Number(existing.quantity) === Number(dosing.quantity) &&
+            existing.quantityUnits === dosing.quantityUnits &&
+            Number(existing.numRefills) === Number(dosing.numRefills) &&
+            sameText(existing.dosingInstructions, dosing.dosingInstructions) &&
+            existing.asNeeded === dosing.asNeeded &&
+            sameText(existing.asNeededCondition, dosing.asNeededCondition)
+        );
+    }
+
+
+    /**
+     * Creates the note's lab test orders in one new "Order" encounter under the visit, skipping the
+     * tests in `orderedTests`. Each is reported in `items`; one that cannot be resolved or that
+     * OpenMRS refuses does not stop the others.
+     * @private
+     */
+    async function createLabOrders(log: CompensationLog, items: NoteItemResult[], ctx: WriteContext, patientUuid: string, visitEncounterUuid: string, labOrders: LabOrder[], orderedTests = new Set<string | undefined>()) {
+        console.log("STEP: Creating Lab Orders via legacy REST API...");
+        let orderEncounterId: string | null = null;
+
+        for (const labOrder of labOrders) {
+            const item = { kind: 'lab_order', name: labOrder.test_name, action: 'created' } as const;
+            let testConceptUuid: string;
+            try {
+                testConceptUuid = await getConceptUuid(labOrder.test_name, 'labTest');
+            } catch (error: any) {
+                reportItemFailure(items, item, new Error(`Failed to create Lab Order for ${labOrder.test_name}: ${error.message}`, { cause: error }));
+                continue;
+            }
+
+            if (orderedTests.has(testConceptUuid)) {
+                console.log(`-> Lab test '${labOrder.test_name}' is already ordered in this visit.`);
+                items.push({ ...item, action: 'unchanged', status: 'success' });
+                continue;
+            }
+
+            let specimenSourceUuid: string | undefined;
+            if (labOrder.specimen?.trim()) {
+                try {
+                    specimenSourceUuid = await getConceptUuid(labOrder.specimen, 'specimen');
+                } catch (_err) {
+                    console.warn(`Specimen '${labOrder.specimen}' not found. Adding it to the order instructions instead.`);
+                }
+            }
+
+            await writeItem(log, items, item, async () => {
+                // Kept only once an order is in it, as a failed order's writes are undone with it
+                const encounterId = orderEncounterId || (await createOrderEncounter(log, ctx, patientUuid, visitEncounterUuid));
+
+                const orderPayload = {
+                    type: "testorder",
+                    patient: patientUuid,
+                    encounter: encounterId,
+                    action: "NEW",
+                    urgency: ['stat', 'urgent'].includes(labOrder.urgency?.trim().toLowerCase()) ? "STAT" : "ROUTINE",
+                    careSetting: "6f0c9a92-6f24-11e3-af88-005056821db0",
+                    orderer: ctx.provider,
+                    concept: testConceptUuid,
+                    specimenSource: specimenSourceUuid,
+                    instructions: !specimenSourceUuid && labOrder.specimen?.trim() ? `Specimen: ${labOrder.specimen}` : undefined,
+                    orderReasonNonCoded: labOrder.clinical_reason,
+                };
+
+                const orderUuid = (await openmrsRestApi.post('/order', orderPayload)).data.uuid;
+                log.record(`Lab order for '${labOrder.test_name}' ${orderUuid}`, () => openmrsRestApi.delete(`/order/${orderUuid}`), { action: 'created', resource: 'order', id: orderUuid });
+                orderEncounterId = encounterId;
+                console.log(`   - Successfully created Lab Order for '${labOrder.test_name}'`);
+                return { uuid: orderUuid };
+            });
+        }
+    }
+
+
+    /**
+     * Records each vital sign as a CIEL-coded Observation in the visit's "Vitals" encounter.
+     * When the visit already has vitals, changed values are updated and unchanged ones are left alone.
+     * Each sign is reported in `items`; one that OpenMRS refuses does not stop the others.
+     * @private
+     */
+    async function recordVitals(log: CompensationLog, items: NoteItemResult[], ctx: WriteContext, patientUuid: string, visitEncounterUuid: string, vitals: VitalMeasurement[]) {
+        console.log("STEP: Recording Vitals...");
+        try {
+            const existingEncounter = await findChildVitalsEncounter(visitEncounterUuid);
+            let vitalsEncounterId: string | null = existingEncounter?.id || null;
+            const existingObservations = existingEncounter
+                ? (await getAllFhirQueryResults(`/Observation?encounter=${vitalsEncounterId}`)).map((entry: any) => entry.resource)
+                : [];
+
+            for (const { sign, value } of vitals) {
+                const existing = existingObservations.find((o: any) =>
+                    o.code?.coding?.some((c: any) => c.system === "https://cielterminology.org" && c.code === sign.ciel)
+                );
+
+                const valueQuantity = { value, unit: sign.unit, system: "http://unitsofmeasure.org", code: sign.ucum };
+
+                if (existing) {
+                    if (existing.valueQuantity?.value === value) {
+                        items.push({ kind: 'vital', name: sign.display, action: 'unchanged', status: 'success', uuid: existing.id });
+                        continue;
+                    }
+
+                    await writeItem(log, items, { kind: 'vital', name: sign.display, action: 'updated', uuid: existing.id }, async () => {
+                        await openmrsFhirApi.put(`/Observation/${existing.id}`, { ...existing, valueQuantity });
+                        log.record(`Update of ${sign.display} Observation ${existing.id}`, () => openmrsFhirApi.put(`/Observation/${existing.id}`, existing), { action: 'updated', resource: 'Observation', id: existing.id });
+                        console.log(`   - Updated ${sign.display}: ${value} ${sign.unit}`);
+                    });
+                    continue;
+                }
+
+                await writeItem(log, items, { kind: 'vital', name: sign.display, action: 'created' }, async () => {
+                    // Kept only once a sign is in it, as a failed sign's writes are undone with it
+                    const encounterId = vitalsEncounterId || (await createVitalsEncounter(log, ctx, patientUuid, visitEncounterUuid));
+
+                    const observationResource = {
+                        resourceType: "Observation",
+                        status: "final",
+                        category: [{ coding: [{ system: "http://terminology.hl7.org/CodeSystem/observation-category", code: "vital-signs" }] }],
+                        code: { coding: [{ system: "https://cielterminology.org", code: sign.ciel, display: sign.display }] },
+                        subject: { reference: `Patient/${patientUuid}` },
+                        encounter: { reference: `Encounter/${encounterId}` },
+                        effectiveDateTime: new Date().toISOString(),
+                        valueQuantity,
+                    };
+
+                    const observationId = (await openmrsFhirApi.post('/Observation', observationResource)).data.id;
+                    log.record(`${sign.display} Observation ${observationId}`, () => openmrsFhirApi.delete(`/Observation/${observationId}`), { action: 'created', resource: 'Observation', id: observationId });
+                    vitalsEncounterId = encounterId;
+                    console.log(`   - Recorded ${sign.display}: ${value} ${sign.unit}`);
+                    return { uuid: observationId };
+                });
+            }
+        } catch (error: any) {
+            console.error("-> FAILURE: Could not record vitals.", error.response?.data || error.message);
+            throw new Error(`Failed to record vitals: ${failureMessage(error)}`, { cause: error });
+        }
+    }
+
+    /**
+     * Creates a "Vitals" encounter under the visit.
+     * @private
+     */
+    async function createVitalsEncounter(log: CompensationLog, ctx: WriteContext, patientUuid: string, visitEncounterUuid: string): Promise<string> {
+        const vitalsEncounterResource = {
+            resourceType: "Encounter",
+            status: "finished",
+            class: { system: "http://terminology.hl7.org/CodeSystem/v3-ActCode", code: "AMB" },
+            type: [{
+                coding: [{
+                    system: "http://fhir.openmrs.org/code-system/encounter-type",
+                    code: config.encounterTypes.vitals,
+                    display: "Vitals"
+                }]
+            }],
+            subject: { reference: `Patient/${patientUuid}` },
+            period: { start: new Date().toISOString() },
+            participant: [{ individual: { reference: `Practitioner/${ctx.provider}` } }],
+            location: [{ location: { reference: `Location/${ctx.location}` } }],
+            partOf: { reference: `Encounter/${visitEncounterUuid}` }
+        };
+
+        const response = await openmrsFhirApi.post('/Encounter', vitalsEncounterResource);
+        const newVitalsEncounterId = response.data.id;
+        log.record(`Vitals encounter ${newVitalsEncounterId}`, () => openmrsFhirApi.delete(`/Encounter/${newVitalsEncounterId}`), { action: 'created', resource: 'Encounter', id: newVitalsEncounterId });
+        console.log(`Created new 'Vitals' encounter: ${newVitalsEncounterId}`);
+
+        return newVitalsEncounterId;
+    }
+
+
+    /**
+     * Records the note's allergies as AllergyIntolerance resources, skipping allergens
+     * the patient already has on record. Each is reported in `items`; one that OpenMRS refuses
+     * does not stop the others.
+     * @private
+     */
+    async function recordAllergies(log: CompensationLog, items: NoteItemResult[], ctx: WriteContext, patientUuid: string, allergies: Allergy[]) {
+        console.log("STEP: Recording Allergies...");
+
+        const existingAllergies = await getAllFhirQueryResults(`/AllergyIntolerance?patient=${patientUuid}`);
+        const recorded = existingAllergies.map((entry: any) => ({
+            concept: entry.resource.code?.coding?.find((c: any) => !c.system)?.code,
+            text: (entry.resource.code?.text || '').trim().toLowerCase(),
+        }));
+
+        for (const allergy of allergies) {
+            try {
+                const allergenUuid = await findCodedConceptUuid(allergy.allergen, 'allergen');
+                const isDuplicate = recorded.some(r =>
+                    (allergenUuid && r.concept === allergenUuid) || r.text === allergy.allergen.trim().toLowerCase()
+                );
+                if (isDuplicate) {
+                    console.log(`-> Allergy to '${allergy.allergen}' is already recorded. Skipping.`);
+                    items.push({ kind: 'allergy', name: allergy.allergen, action: 'unchanged', status: 'success' });
+                    continue;
+                }
+
+                const reactionUuid = allergy.reaction?.trim() ? await findCodedConceptUuid(allergy.reaction, 'reaction') : null;
+
+                const category = ({
+                    drug: 'medication', medication: 'medication',
+                    food: 'food',
+                    environment: 'environment', environmental: 'environment',
+                } as { [key: string]: string })[allergy.category?.trim().toLowerCase()];
+                const severity = ['mild', 'moderate', 'severe'].find(s => s === allergy.severity?.trim().toLowerCase());
+
+                const allergen = {
+                    coding: [{ code: allergenUuid || OTHER_NON_CODED_CONCEPT_UUID }],
+                    text: allergy.allergen,
+                };
+
+                const allergyResource = {
+                    resourceType: "AllergyIntolerance",
+                    clinicalStatus: { coding: [{ system: "http://terminology.hl7.org/CodeSystem/allergyintolerance-clinical", code: "active" }] },
+                    verificationStatus: { coding: [{ system: "http://terminology.hl7.org/CodeSystem/allergyintolerance-verification", code: "confirmed" }] },
+                    type: "allergy",
+                    category: category ? [category] : undefined,
+                    code: allergen,
+                    patient: { reference: `Patient/${patientUuid}` },
+                    recorder: { reference: `Practitioner/${ctx.provider}` },
+                    reaction: allergy.reaction?.trim() ? [{
+                        substance: allergen,
+                        manifestation: [{ coding: [{ code: reactionUuid || OTHER_NON_CODED_CONCEPT_UUID }], text: allergy.reaction }],
+                        severity,
+                    }] : undefined,
+                };
+
+                const written = await writeItem(log, items, { kind: 'allergy', name: allergy.allergen, action: 'created' }, async () => {
+                    const allergyId = (await openmrsFhirApi.post('/AllergyIntolerance', allergyResource)).data.id;
+                    log.record(`Allergy to '${allergy.allergen}' ${allergyId}`, () => openmrsFhirApi.delete(`/AllergyIntolerance/${allergyId}`), { action: 'created', resource: 'AllergyIntolerance', id: allergyId });
+                    return { uuid: allergyId };
+                });
+                if (written) {
+                    recorded.push({ concept: allergenUuid || undefined, text: allergy.allergen.trim().toLowerCase() });
+                    console.log(`   - Recorded allergy to '${allergy.allergen}'`);
+                }
+
+            } catch (error: any) {
+                console.error(`-> FAILURE: Could not record allergy to '${allergy.allergen}'.`, error.response?.data || error.message);
+                throw new Error(`Failed to record allergy to ${allergy.allergen}: ${failureMessage(error)}`, { cause: error });
+            }
+        }
+    }
+
+
+    async function createVisitNoteEncounter(log: CompensationLog, ctx: WriteContext, patientId: string, visitEncounterId: string): Promise<any> {
+
+        const noteEncounterResource = {
+            resourceType: "Encounter",
+            status: "finished",
+            class: { 
+                system: "http://terminology.hl7.org/CodeSystem/v3-ActCode", 
+                code: "AMB" 
+            },
+            type: [
+                { 
+                    coding: [
+                        {
+                            system: "http://fhir.openmrs.org/code-system/encounter-type",
+                            code: config.encounterTypes.visitNote,
+                            display: "Visit Note"
+                    }
+                    ]
+                }
+            ],
+            subject: { 
+                reference: `Patient/${patientId}` 
+            },
+            period: { 
+                start: new Date().toISOString(),
+            },
+            participant: [
+                { 
+                    individual: 
+                    { 
+                        reference: `Practitioner/${ctx.provider}` 
+                    } 
+                }
+            ],
+            location: [
+                { 
+                    location: 
+                    { 
+                        reference: `Location/${ctx.location}` 
+                    } 
+                }
+            ],
+            partOf: { 
+                reference: `Encounter/${visitEncounterId}` 
+            } 
+        };
+
+        const noteEncounterResponse = await openmrsFhirApi.post('/Encounter', noteEncounterResource);
+        const newNoteEncounter = noteEncounterResponse.data;
+        log.record(`Visit Note encounter ${newNoteEncounter.id}`, () => openmrsFhirApi.delete(`/Encounter/${newNoteEncounter.id}`), { action: 'created', resource: 'Encounter', id: newNoteEncounter.id });
+
+        return  newNoteEncounter
+    }
+
+
+    async function getDrugUuid(name: string, strength: string): Promise<string> {
+        try {
+            return (await conceptResolver.resolveDrug(name, strength)).uuid;
+        } catch (error: any) {
+            console.error(`Error fetching drug UUID for '${name} ${strength}':`, error.message);
+            throw error;
+        }
+    }
+
+
+    async function getConceptUuid(name: string, kind: ConceptKind = 'any'): Promise<string> {
+        try {
+            return (await conceptResolver.resolveConcept(name, kind)).uuid;
+        } catch (error: any) {
+            console.error(`Error fetching concept UUID for '${name}':`, error.message);
+            throw error;
+        }
+    }
+
+
+    /**
+     * Get active allergies for the patient
+     * @private
+     */
+    const getActiveAllergies = async (patientId: string) => {
+        const allergies = await getAllFhirQueryResults(`/AllergyIntolerance?patient=${patientId}&clinical-status=active`)
+        return (
+            allergies
+                .map((entry: any) => ({
+                    name: entry.resource.code?.text as string,
+                    reactions: (entry.resource.reaction || []).flatMap((r: any) => (r.manifestation || []).map((m: any) => m.text)).filter(Boolean) as string[],
+                    severity: capitalizeFirstLetter(entry.resource.reaction?.[0]?.severity || '') as string,
+                }))
+        )
+    }
+
+
+    /**
+     * Get active conditions for the patient
+     * @private
+     */
+    const getActiveConditions = async (patientId: string) => {
+        const activeConditions = await getAllFhirQueryResults(`/Condition?patient=${patientId}&clinical-status=active`)
+        return (
+            activeConditions
+                .map((entry: any) => { 
+                    return {
+                        name: entry.resource.code.text,
+                    }
+                })
+        )
+    }
+
+
+    /**
+     * Get active medications for the patient
+     * @private
+     */
+    const getActiveMedications = async (patientId: string) => {
+        const medications = await getAllFhirQueryResults(`/MedicationRequest?patient=${patientId}`)
+
+        return medications
+            .filter((entry: any) => entry.resource.status == "active")
+            .map((entry: any) => transformMedicationRequest(entry.resource));
+    }
+
+
+    /**
+     * Get the drug orders written in this visit's child Order encounters, including ones since stopped
+     * @private
+     */
+    const getVisitMedications = async (visitId: string) => {
+        const childOrderEncounters = await findChildOrderEncounters(visitId);
+        if (childOrderEncounters.length === 0) return [];
+
+        const orderEncounterIds = childOrderEncounters.map(enc => enc.id).join(',');
+        const medications = await getAllFhirQueryResults(`/MedicationRequest?encounter=${orderEncounterIds}`);
+
+        return medications
+            .filter((entry: any) => !['cancelled', 'entered-in-error'].includes(entry.resource.status))
+            .map((entry: any) => transformMedicationRequest(entry.resource));
+    }
+
+
+    /**
+     * Get the most recent value of each vital sign for the patient
+     * @private
+     */
+    const getLatestVitals = async (patientId: string) => {
+        const codes = VITAL_SIGNS.map(sign => `https://cielterminology.org|${sign.ciel}`).join(',');
+        const response = await openmrsFhirApi.get(`/Observation?patient=${patientId}&code=${encodeURIComponent(codes)}&_sort=-date&_count=100`);
+        const observations = (response.data.entry || []).map((entry: any) => entry.resource);
+
+        // Sorted newest first, so the first observation of each sign is the latest
+        return VITAL_SIGNS.flatMap(sign => {
+            const latest = observations.find((o: any) =>
+                o.code?.coding?.some((c: any) => c.system === "https://cielterminology.org" && c.code === sign.ciel)
+            );
+            return latest ? [{
+                name: sign.key,
+                value: latest.valueQuantity?.value,
+                unit: sign.unit,
+                date: latest.effectiveDateTime,
+            }] : [];
         });
-    return activeMedications
-}
+    }
 
 
-/**
- * Get lab tests ordered in this visit
- * @private
- */
-const _getOrderLabTests = async (visitId: string) => {
-    const childOrderEncounters = await findChildOrderEncounters(visitId)
-    const orderEncounterIds = childOrderEncounters.map(enc => enc.id).join(',');
-
-    const orderedLabTests = await getAllFhirQueryResults(`/ServiceRequest?encounter=${orderEncounterIds}`)
-
-    return (
-        orderedLabTests.map((entry: any) => ({
-            name: entry.resource.code.text,
-            date: entry.resource.occurrencePeriod.start
-        }))
-    )
-}
+    /**
+     * Get the vital signs recorded in this visit's child Vitals encounter
+     * @private
+     */
+    const getVisitVitals = async (visitId: string) => {
+        const vitalsEncounter = await findChildVitalsEncounter(visitId);
+        if (!vitalsEncounter) return [];
 
+        const observations = (await getAllFhirQueryResults(`/Observation?encounter=${vitalsEncounter.id}`)).map((entry: any) => entry.resource);
 
-/**
- * Get diagnoses for this visit
- * @private
- */
-const getVisitDiagnoses = async (visitNoteId: string) => {
-    const visitNoteDetails = await openmrsRestApi.get(`/encounter/${visitNoteId}`);
-    const diagnoses = visitNoteDetails.data.diagnoses;
-
-    return (
-        diagnoses
-            .filter((d: any) => d.voided == false)
-            .map((d: any) => {
-                return {
-                    uuid: d.uuid,
-                    diagnosis: d.display,
-                    rank: d.rank == 1 ? "Primary" : "Secondary",
-                    certainty: capitalizeFirstLetter(d.certainty),
+        return VITAL_SIGNS.flatMap(sign => {
+            const observation = observations.find((o: any) =>
+                o.code?.coding?.some((c: any) => c.system === "https://cielterminology.org" && c.code === sign.ciel)
+            );
+            return observation ? [{ name: sign.key, value: observation.valueQuantity?.value as number, unit: sign.unit }] : [];
+        });
+    }
+
+
+    /**
+     * Get lab tests ordered in this visit
+     * @private
+     */
+    const getVisitLabOrders = async (visitId: string) => {
+        const childOrderEncounters = await findChildOrderEncounters(visitId)
+        if (childOrderEncounters.length === 0) return [];
+
+        const orderEncounterIds = childOrderEncounters.map(enc => enc.id).join(',');
+
+        const orderedLabTests = await getAllFhirQueryResults(`/ServiceRequest?encounter=${orderEncounterIds}`)
+
+        return (
+            orderedLabTests.map((entry: any) => ({
+                name: entry.resource.code.text,
+                // OpenMRS lists the concept UUID as the coding without a system
+                concept: entry.resource.code.coding?.find((c: any) => !c.system)?.code as string | undefined,
+                urgency: capitalizeFirstLetter(entry.resource.priority || 'routine'),
+                date: entry.resource.occurrencePeriod?.start,
+            }))
+        )
+    }
+
+
+    /**
+     * Get diagnoses for this visit
+     * @private
+     */
+    const getVisitDiagnoses = async (visitNoteId: string) => {
+        const visitNoteDetails = await openmrsRestApi.get(`/encounter/${visitNoteId}`);
+        const diagnoses = visitNoteDetails.data.diagnoses || [];
+
+        return (
+            diagnoses
+                .filter((d: any) => d.voided == false)
+                .map((d: any) => {
+                    return {
+                        uuid: d.uuid,
+                        diagnosis: d.display,
+                        coded: d.diagnosis?.coded?.uuid as string | undefined,
+                        nonCoded: d.diagnosis?.nonCoded as string | undefined,
+                        rank: d.rank == 1 ? "Primary" : "Secondary",
+                        certainty: capitalizeFirstLetter(d.certainty),
+                    }
+                })
+        )
+    }
+
+    /**
+     * Get the active drug orders in this visit's child Order encounters
+     * @private
+     */
+    const getVisitDrugOrders = async (visitId: string): Promise<ExistingDrugOrder[]> => {
+        const childOrderEncounters = await findChildOrderEncounters(visitId);
+        const orderFields = 'uuid,display,type,action,voided,dateStopped,drug:(uuid,display),concept:(uuid),dose,doseUnits:(uuid),route:(uuid),frequency:(uuid,concept:(uuid)),duration,durationUnits:(uuid),quantity,quantityUnits:(uuid),numRefills,dosingInstructions,asNeeded,asNeededCondition';
+
+        const drugOrders: ExistingDrugOrder[] = [];
+        for (const encounter of childOrderEncounters) {
+            const response = await openmrsRestApi.get(`/encounter/${encounter.id}?v=custom:(uuid,orders:(${orderFields}))`);
+
+            response.data.orders
+                // A DISCONTINUE order only stops its previous order, and stopped orders are no longer active
+                .filter((o: any) => o.type === 'drugorder' && !o.voided && !o.dateStopped && o.action !== 'DISCONTINUE')
+                .forEach((o: any) => drugOrders.push({
+                    uuid: o.uuid,
+                    name: o.drug?.display || o.display,
+                    drug: o.drug?.uuid,
+                    concept: o.concept?.uuid,
+                    dose: o.dose,
+                    doseUnits: o.doseUnits?.uuid,
+                    route: o.route?.uuid,
+                    frequency: o.frequency?.uuid,
+                    frequencyConcept: o.frequency?.concept?.uuid,
+                    duration: o.duration,
+                    durationUnits: o.durationUnits?.uuid,
+                    quantity: o.quantity,
+                    quantityUnits: o.quantityUnits?.uuid,
+                    numRefills: o.numRefills,
+                    dosingInstructions: o.dosingInstructions,
+                    asNeeded: o.asNeeded,
+                    asNeededCondition: o.asNeededCondition,
+                }));
+        }
+
+        return drugOrders;
+    }
+
+    /**
+     * Add diagnosis for this visit
+     * @private
+     */
+    async function postVisitDiagnosis(patientId: string, visitNoteEncounterId: string, diagnosis: Diagnosis, conceptId: string | null): Promise<string> {
+        const diagnosisPayload = {
+            "patient": patientId,
+            "diagnosis": conceptId ? { "coded": conceptId } : { "nonCoded": diagnosis.diagnosis },
+            "certainty": diagnosis.certainty,
+            "rank": diagnosis.rank == "Primary" ? 1 : 0,
+            "condition": null,
+            "encounter": visitNoteEncounterId,
+        }
+
+        const response = await openmrsRestApi.post('/patientdiagnoses', diagnosisPayload);
+        return response.data.uuid;
+    }
+
+    /**
+     * Looks up the coded concept for a diagnosis, or null to save it non-coded.
+     * @private
+     */
+    async function findDiagnosisConceptUuid(diagnosis: string): Promise<string | null> {
+        return findCodedConceptUuid(diagnosis, 'diagnosis');
+    }
+
+    /**
+     * Looks up the coded concept for a value that OpenMRS can also store as free text, or null.
+     * @private
+     */
+    async function findCodedConceptUuid(text: string, kind: ConceptKind): Promise<string | null> {
+        return (await findCodedConcept(text, kind))?.uuid || null;
+    }
+
+    /**
+     * Like `findCodedConceptUuid`, with the concept's name and how it matched.
+     * Only a concept that does not exist makes the value non-coded; a failed lookup is rethrown.
+     * @private
+     */
+    async function findCodedConcept(text: string, kind: ConceptKind): Promise<ResolvedConcept | null> {
+        try {
+            return await conceptResolver.resolveConcept(text, kind);
+        } catch (error) {
+            if (!(error instanceof ConceptNotFoundError)) throw error;
+            console.warn(`Coding not found for ${kind} '${text}'. Saving it non-coded.`)
+            return null;
+        }
+    }
+
+
+    /**
+     * Adds the note's confirmed diagnoses to the patient's problem list, as allowed by PROBLEM_LIST_POLICY,
+     * and marks the note's resolved problems inactive. Conditions the patient already has are not duplicated:
+     * an active confirmed one is left alone, and an inactive or provisional one is updated.
+     * @private
+     */
+    async function updateProblemList(log: CompensationLog, items: NoteItemResult[], patientId: string, diagnoses: Diagnosis[], resolvedProblems: ResolvedProblem[]) {
+        const promoted = diagnoses.filter(d =>
+            d.certainty === 'Confirmed' && (config.problemListPolicy === 'confirmed' || (config.problemListPolicy === 'confirmed_primary' && d.rank === 'Primary'))
+        );
+        if (promoted.length === 0 && resolvedProblems.length === 0) return;
+
+        console.log("STEP: Updating the problem list...");
+        try {
+            const conditions = await getPatientConditions(patientId);
+            const findCondition = (conceptId: string | null, text: string) => conditions.find(c =>
+                (conceptId && c.coded === conceptId) || (c.nonCoded || c.name || '').trim().toLowerCase() === text.trim().toLowerCase()
+            );
+
+            for (const diagnosis of promoted) {
+                const conceptId = await findDiagnosisConceptUuid(diagnosis.diagnosis);
+                const existing = findCondition(conceptId, diagnosis.diagnosis);
+
+                if (!existing) {
+                    await writeItem(log, items, { kind: 'problem', name: diagnosis.diagnosis, action: 'created' }, async () => {
+                        const conditionUuid = await postPatientCondition(patientId, diagnosis.diagnosis, conceptId);
+                        log.record(`Condition '${diagnosis.diagnosis}' ${conditionUuid}`, () => openmrsRestApi.delete(`/condition/${conditionUuid}`), { action: 'created', resource: 'condition', id: conditionUuid });
+                        console.log(`   - Added '${diagnosis.diagnosis}' to the problem list`);
+                        return { uuid: conditionUuid };
+                    });
+                } else if (existing.clinicalStatus !== 'ACTIVE' || existing.verificationStatus !== 'CONFIRMED') {
+                    await writeItem(log, items, { kind: 'problem', name: existing.name, action: 'updated', uuid: existing.uuid }, async () => {
+                        await updatePatientCondition(log, existing, { clinicalStatus: 'ACTIVE', verificationStatus: 'CONFIRMED', endDate: null });
+                        console.log(`   - Marked '${existing.name}' active and confirmed on the problem list`);
+                    });
+                } else {
+                    console.log(`   - '${existing.name}' is already on the problem list`);
+                    items.push({ kind: 'problem', name: existing.name, action: 'unchanged', status: 'success', uuid: existing.uuid });
                 }
-            })
-    )
-}
+            }
 
-/**
- * Add diagnosis for this visit
- * @private
- */
-async function postVisitDiagnosis(patientId: string, visitNoteEncounterId: string, diagnosis: Diagnosis) {
+            for (const resolved of resolvedProblems) {
+                const conceptId = await findDiagnosisConceptUuid(resolved.problem);
+                const existing = findCondition(conceptId, resolved.problem);
 
-    let conceptId: string | null = null
-    try {
-        conceptId = await getConceptUuid(diagnosis.diagnosis);
-    } catch (_err) {}
+                if (!existing || existing.clinicalStatus !== 'ACTIVE') {
+                    console.log(`   - '${resolved.problem}' is not an active problem, nothing to resolve`);
+                    items.push({ kind: 'problem', name: resolved.problem, action: 'unchanged', status: 'success', uuid: existing?.uuid });
+                    continue;
+                }
+                await writeItem(log, items, { kind: 'problem', name: existing.name, action: 'resolved', uuid: existing.uuid }, async () => {
+                    await updatePatientCondition(log, existing, { clinicalStatus: 'INACTIVE', endDate: new Date().toISOString() });
+                    console.log(`   - Marked '${existing.name}' resolved on the problem list`);
+                });
+            }
+        } catch (error: any) {
+            console.error("-> FAILURE: Could not update the problem list.", error.response?.data || error.message);
+            throw new Error(`Failed to update the problem list for patient ${patientId}: ${failureMessage(error)}`, { cause: error });
+        }
+    }
 
-    if (!conceptId) {
-        console.warn(`Coding not found for diagnosis '${diagnosis.diagnosis}'. Saving it non-coded.`)
+    /**
+     * Get all of the patient's conditions, including inactive ones
+     * @private
+     */
+    const getPatientConditions = async (patientId: string): Promise<ExistingCondition[]> => {
+        const conditions = await getAllRestQueryResults(`/condition?patientUuid=${patientId}&includeInactive=true&v=full`);
+        return conditions
+            .filter((c: any) => !c.voided)
+            .map((c: any) => ({
+                uuid: c.uuid,
+                name: c.condition?.coded?.display || c.condition?.nonCoded || c.display,
+                coded: c.condition?.coded?.uuid,
+                nonCoded: c.condition?.nonCoded,
+                clinicalStatus: c.clinicalStatus,
+                verificationStatus: c.verificationStatus,
+                endDate: c.endDate,
+            }));
     }
 
-    const diagnosisPayload = {
-        "patient": patientId,
-        "diagnosis": conceptId ? { "coded": conceptId } : { "nonCoded": diagnosis.diagnosis },
-        "certainty": diagnosis.certainty,
-        "rank": diagnosis.rank == "Primary" ? 1 : 0,
-        "condition": null,
-        "encounter": visitNoteEncounterId,
+    /**
+     * Add a confirmed, active condition to the patient's problem list
+     * @private
+     */
+    async function postPatientCondition(patientId: string, text: string, conceptId: string | null): Promise<string> {
+        const conditionPayload = {
+            "patient": patientId,
+            "condition": conceptId ? { "coded": conceptId } : { "nonCoded": text },
+            "onsetDate": new Date().toISOString(),
+            "verificationStatus": "CONFIRMED",
+            "clinicalStatus": "ACTIVE",
+        }
+
+        return (await openmrsRestApi.post('/condition', conditionPayload)).data.uuid;
     }
 
-    openmrsRestApi.post('/patientdiagnoses', diagnosisPayload);
-}
+    /**
+     * Changes the status of a condition, recording how to put it back
+     * @private
+     */
+    async function updatePatientCondition(log: CompensationLog, existing: ExistingCondition, changes: { clinicalStatus: string, verificationStatus?: string, endDate: string | null }) {
+        await openmrsRestApi.post(`/condition/${existing.uuid}`, changes);
+        log.record(`Update of condition '${existing.name}' ${existing.uuid}`, () => openmrsRestApi.post(`/condition/${existing.uuid}`, {
+            clinicalStatus: existing.clinicalStatus,
+            ...(existing.verificationStatus ? { verificationStatus: existing.verificationStatus } : {}),
+            endDate: existing.endDate || null,
+        }), { action: 'updated', resource: 'condition', id: existing.uuid });
+    }
 
 
-/**
- * Add condition for this patient
- * @private
- */
-async function _postPatientCondition(patientId: string, diagnosis: Diagnosis) {
-    let conceptId = (await getConceptUuid(diagnosis.diagnosis));
+    /**
+     * Loops over paginated legacy REST query results and collects them all
+     * @private
+     */
+    async function getAllRestQueryResults(queryUrl: string): Promise<any[]> {
+        let url: null | string = queryUrl
+        let results: any[] = []
+
+        do {
+            let response: any = await openmrsRestApi.get(url)
+
+            results = [...results, ...(response.data.results || [])]
+
+            url = response.data.links?.find((l: any) => l.rel == "next")?.uri || null
+        } while (url != null)
 
-    const conditionPayload = {
-        "patient": patientId,
-        "condition": {
-            "coded": conceptId,
-        },
-        "onsetDate": null,
-        "verificationStatus": diagnosis.certainty,
-        "clinicalStatus": "ACTIVE",
+        return results
     }
 
-    openmrsRestApi.post('/condition', conditionPayload);
+
+    /**
+     * Loops over paginated query results and collects them all
+     * @private
+     */
+    async function getAllFhirQueryResults(queryUrl: string): Promise<any[]> {
+        let url: null | string = queryUrl
+        let entries: any[] = []
+
+        do {
+            let response: any = await openmrsFhirApi.get(url)
+
+            entries = [...entries, ...(response.data.entry || [])]
+
+            url = null
+            for (const l of response.data.link) {
+                if (l.relation == "next") {
+                    url = l.url
+                }
+            }
+        } while (url != null)
+
+        return entries
+    }
+
+    return {
+        patientChartPage: `${config.frontendUrl}/patient/:patientId/chart/Patient%20Summary`,
+        getPatients,
+        getActiveVisitPatients,
+        getTodaysAppointmentPatients,
+        getRecentlySeenPatients,
+        getPatientEncounters,
+        postNote,
+        previewNote,
+        resolveWriteContext,
+        getPatientSummary,
+        getEncounterView,
+        getEncounterNote,
+        getMedicationTemplates,
+        validateTerminologyMap,
+        close: () => auth.signOut(),
+    };
 }
 
+export type OpenMRSApi = ReturnType<typeof createOpenMRSApi>;
 
 /**
- * Loops over paginated query results and collects them all
- * @private
+ * OpenMRS, the default EMR of a tenant.
  */
-async function getAllFhirQueryResults(queryUrl: string): Promise<any[]> {
-    let url: null | string = queryUrl
-    let entries: any[] = []
+export const openmrsAdapter: EmrAdapterDefinition<OpenMRSConfig> = {
+    requiredSettings: [
+        'openmrs_frontend_url',
+        'openmrs_rest_base_url',
+        'openmrs_fhir_base_url',
+        'openmrs_default_location_uuid',
+        'openmrs_default_practitioner_uuid',
+    ],
+    optionalSettings: [
+        'openmrs_auth',
+        'openmrs_username',
+        'openmrs_password',
+        'openmrs_oauth2_token_url',
+        'openmrs_oauth2_client_id',
+        'openmrs_oauth2_client_secret',
+        'openmrs_oauth2_scope',
+        'terminology_map_path',
+        'provider_map_path',
+        'therapeutic_classes_path',
+        'order_safety_policy',
+        'problem_list_policy',
+        'concept_cache_ttl_minutes',
+        'concept_match_threshold',
+        'med_templates_ttl_minutes',
+        'request_timeout_seconds',
+        'request_retries',
+        'circuit_breaker_threshold',
+        'circuit_breaker_cooldown_seconds',
+    ],
+    // The visit, visit note, order and vitals encounter types, if the server does not use the reference application's
+    fileOnlySettings: ['encounter_types'],
+
+    configure(tenantId: string, settings: TenantSettings): OpenMRSConfig {
+        const problemListPolicy = (settings.problem_list_policy || 'confirmed_primary') as OpenMRSConfig['problemListPolicy'];
+        if (!PROBLEM_LIST_POLICIES.includes(problemListPolicy)) {
+            throw new Error(`Invalid problem_list_policy '${problemListPolicy}' for tenant '${tenantId}'. Expected one of: ${PROBLEM_LIST_POLICIES.join(', ')}`);
+        }
 
-    do {
-        let response: any = await openmrsFhirApi.get(url)
+        const encounterTypes = settings.encounter_types || {};
 
-        entries = [...entries, ...(response.data.entry || [])]
+        const authMethod = (settings.openmrs_auth || 'session') as OpenMRSAuthConfig['method'];
+        if (!OPENMRS_AUTH_METHODS.includes(authMethod)) {
+            throw new Error(`Invalid openmrs_auth '${authMethod}' for tenant '${tenantId}'. Expected one of: ${OPENMRS_AUTH_METHODS.join(', ')}`);
+        }
+        const authSettings = authMethod === 'oauth2'
+            ? ['openmrs_oauth2_token_url', 'openmrs_oauth2_client_id', 'openmrs_oauth2_client_secret']
+            : ['openmrs_username', 'openmrs_password'];
+        const missingAuth = authSettings.filter(setting => !settings[setting]);
+        if (missingAuth.length > 0) throw new Error(`Tenant '${tenantId}' signs in with ${authMethod} and is missing: ${missingAuth.join(', ')}`);
+        const auth: OpenMRSAuthConfig = authMethod === 'oauth2'
+            ? {
+                method: authMethod,
+                tokenUrl: settings.openmrs_oauth2_token_url,
+                clientId: settings.openmrs_oauth2_client_id,
+                clientSecret: settings.openmrs_oauth2_client_secret,
+                scope: settings.openmrs_oauth2_scope,
+            }
+            : { method: authMethod, username: settings.openmrs_username, password: settings.openmrs_password };
 
-        url = null
-        for (const l of response.data.link) {
-            if (l.relation == "next") {
-                url = l.url
+        const number = (setting: string, fallback: number, min: number, max = Infinity): number => {
+            const raw = settings[setting];
+            const value = raw === undefined || raw === null || raw === '' ? fallback : Number(raw);
+            if (!Number.isFinite(value) || value < min || value > max) {
+                throw new Error(`Invalid ${setting} '${raw}' for tenant '${tenantId}'. Expected a number ${max === Infinity ? `of at least ${min}` : `from ${min} to ${max}`}.`);
             }
-        }
-    } while (url != null)
+            return value;
+        };
 
-    return entries
-}
\ No newline at end of file
+        return {
+            frontendUrl: settings.openmrs_frontend_url,
+            restBaseUrl: settings.openmrs_rest_base_url,
+            fhirBaseUrl: settings.openmrs_fhir_base_url,
+            auth,
+            defaultLocationUuid: settings.openmrs_default_location_uuid,
+            defaultPractitionerUuid: settings.openmrs_default_practitioner_uuid,
+            encounterTypes: {
+                visitTypes: encounterTypes.visit_types || DEFAULT_ENCOUNTER_TYPES.visitTypes,
+                visitNote: encounterTypes.visit_note || DEFAULT_ENCOUNTER_TYPES.visitNote,
+                order: encounterTypes.order || DEFAULT_ENCOUNTER_TYPES.order,
+                vitals: encounterTypes.vitals || DEFAULT_ENCOUNTER_TYPES.vitals,
+            },
+            terminologyMapPath: settings.terminology_map_path,
+            providerMapPath: settings.provider_map_path,
+            therapeuticClassesPath: settings.therapeutic_classes_path,
+            conceptCacheTtlMinutes: number('concept_cache_ttl_minutes', 60, 0),
+            conceptMatchThreshold: number('concept_match_threshold', 0.9, 0, 1),
+            medTemplatesTtlMinutes: number('med_templates_ttl_minutes', 60, 0),
+            orderSafetyPolicy: parseSafetyPolicy(settings.order_safety_policy),
+            problemListPolicy,
+            resilience: {
+                timeoutMs: number('request_timeout_seconds', 30, 1) * 1000,
+                maxRetries: Math.floor(number('request_retries', 2, 0)),
+                retryBaseDelayMs: 250,
+                breakerThreshold: number('circuit_breaker_threshold', 5, 1),
+                breakerCooldownMs: number('circuit_breaker_cooldown_seconds', 30, 1) * 1000,
+            },
+        };
+    },
+
+    describe: config => `OpenMRS FHIR at ${config.fhirBaseUrl}`,
+
+    create(config: OpenMRSConfig): EmrAdapter {
+        const api = createOpenMRSApi(config);
+        api.validateTerminologyMap();
+        return api;
+    },
+};
@@ -0,0 +1,164 @@
+import axios, { isAxiosError, type AxiosInstance, type InternalAxiosRequestConfig } from 'axios';
+
+export const OPENMRS_AUTH_METHODS = ['session', 'basic', 'oauth2'] as const;
+
+/**
+ * How the adapter signs in to OpenMRS:
+ * - session: signs in once with the username and password and reuses the session (JSESSIONID)
+ * - basic: sends the username and password with every request
+ * - oauth2: sends a bearer token from an OAuth2/OIDC server such as Keycloak, obtained with
+ *   the client credentials grant
+ */
+export type OpenMRSAuthConfig =
+    | { method: 'session' | 'basic', username: string, password: string }
+    | { method: 'oauth2', tokenUrl: string, clientId: string, clientSecret: string, scope?: string };
+
+/**
+ * Thrown when OpenMRS, or the token server, does not accept the adapter's credentials.
+ */
+export class OpenMRSAuthError extends Error {
+    constructor(message: string, options?: { cause?: unknown }) {
+        super(message, options);
+        this.name = 'OpenMRSAuthError';
+    }
+}
+
+// How long before it expires a token is replaced, so that it does not expire in flight
+const TOKEN_EXPIRY_MARGIN_MS = 30 * 1000;
+const SIGN_IN_TIMEOUT_MS = 30 * 1000;
+
+type Credential = { header: string, value: string };
+
+/**
+ * Signs the requests of one OpenMRS server in. Shared by its clients, so they use the same
+ * session or token.
+ */
+export class OpenMRSAuth {
+    private credential: Promise<Credential> | null = null;
+    private expiresAt = Infinity;
+
+    constructor(private readonly config: OpenMRSAuthConfig, private readonly restBaseUrl: string) {}
+
+    /**
+     * The header to send, signing in first if there is no valid session or token.
+     */
+    async current(): Promise<Credential> {
+        if (!this.credential || Date.now() >= this.expiresAt) {
+            this.expiresAt = Infinity;
+            // One sign-in for all the requests waiting on it
+            const signIn = this.signIn();
+            this.credential = signIn;
+            signIn.catch(() => {
+                if (this.credential === signIn) this.credential = null;
+            });
+        }
+        return this.credential;
+    }
+
+    /**
+     * Forgets a session or token that OpenMRS no longer accepts, unless it was already replaced.
+     */
+    async expire(rejected: Credential) {
+        const current = await this.credential?.catch(() => null);
+        if (current && current.value === rejected.value) this.credential = null;
+    }
+
+    /**
+     * Ends the session, if there is one. Tokens are left to expire.
+     */
+    async signOut() {
+        if (this.config.method !== 'session' || !this.credential) return;
+        try {
+            const { header, value } = await this.credential;
+            this.credential = null;
+            await axios.delete(`${this.restBaseUrl}/session`, { headers: { [header]: value }, timeout: SIGN_IN_TIMEOUT_MS });
+            console.log(`Signed out of OpenMRS at ${this.restBaseUrl}.`);
+        } catch (error: any) {
+            console.error(`Could not sign out of OpenMRS at ${this.restBaseUrl}:`, error.message);
+        }
+    }
+
+    private async signIn(): Promise<Credential> {
+        const config = this.config;
+        if (config.method === 'oauth2') return this.fetchToken(config);
+        if (config.method === 'session') return this.startSession(config.username, config.password);
+        return { header: 'Authorization', value: basicAuth(config.username, config.password) };
+    }
+
+    private async startSession(username: string, password: string): Promise<Credential> {
+        const response = await axios.get(`${this.restBaseUrl}/session`, {
+            headers: { Authorization: basicAuth(username, password) },
+            timeout: SIGN_IN_TIMEOUT_MS,
+        });
+        if (!response.data?.authenticated) {
+            throw new OpenMRSAuthError(`OpenMRS at ${this.restBaseUrl} did not accept the username and password.`);
+        }
+
+        // The cookie OpenMRS set, or else the session id it reported
+        const cookie = (response.headers['set-cookie'] || []).map(c => c.split(';')[0]).find(c => c.startsWith('JSESSIONID='));
+        const sessionId = cookie || (response.data.sessionId && `JSESSIONID=${response.data.sessionId}`);
+        if (!sessionId) throw new OpenMRSAuthError(`OpenMRS at ${this.restBaseUrl} did not start a session.`);
+
+        console.log(`Signed in to OpenMRS at ${this.restBaseUrl} as ${username}.`);
+        return { header: 'Cookie', value: sessionId };
+    }
+
+    private async fetchToken(config: Extract<OpenMRSAuthConfig, { method: 'oauth2' }>): Promise<Credential> {
+        const form = new URLSearchParams({ grant_type: 'client_credentials', client_id: config.clientId, client_secret: config.clientSecret });
+        if (config.scope) form.set('scope', config.scope);
+
+        let data: any;
+        try {
+            ({ data } = await axios.post(config.tokenUrl, form, { timeout: SIGN_IN_TIMEOUT_MS }));
+        } catch (error) {
+            // A token server that answers but refuses is a configuration problem, not an outage
+            if (isAxiosError(error) && error.response && error.response.status < 500) {
+                throw new OpenMRSAuthError(`${config.tokenUrl} refused client '${config.clientId}': ${error.response.data?.error_description || error.message}`, { cause: error });
+            }
+            throw error;
+        }
+        if (!data?.access_token) throw new OpenMRSAuthError(`${config.tokenUrl} did not return an access token.`);
+
+        if (data.expires_in) this.expiresAt = Date.now() + Number(data.expires_in) * 1000 - TOKEN_EXPIRY_MARGIN_MS;
+        return { header: 'Authorization', value: `Bearer ${data.access_token}` };
+    }
+}
+
+type SignedRequestConfig = InternalAxiosRequestConfig & { credential?: Credential, signedInAgain?: boolean };
+
+/**
+ * Signs every request of a client in with `auth`. A request that OpenMRS answers with 401, as it
+ * does once a session or token has expired, is sent once more after signing in again.
+ */
+export function useOpenMRSAuth(client: AxiosInstance, auth: OpenMRSAuth) {
+    client.interceptors.request.use(async (config: SignedRequestConfig) => {
+        try {
+            config.credential = await auth.current();
+        } catch (error) {
+            if (error instanceof OpenMRSAuthError) throw error;
+            // Wrapped, so that the failed sign-in is not taken for a failure of this request and retried as one
+            throw new Error(`Could not sign in to OpenMRS: ${(error as Error).message}`, { cause: error });
+        }
+        config.headers.set(config.credential.header, config.credential.value);
+        return config;
+    });
+
+    client.interceptors.response.use(undefined, async (error: unknown) => {
+        if (!isAxiosError(error) || error.response?.status !== 401 || !error.config) throw error;
+
+        const config = error.config as SignedRequestConfig;
+        // Refused again with fresh credentials: they are wrong, or lack the privilege
+        if (config.signedInAgain || !config.credential) throw error;
+
+        await auth.expire(config.credential);
+        config.signedInAgain = true;
+        return client.request(config);
+    });
+}
+
+/**
+ * @private
+ */
+function basicAuth(username: string, password: string): string {
+    return `Basic ${Buffer.from(`${username}:${password}`).toString('base64')}`;
+}
@@ -0,0 +1,88 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { checkOrderSafety, DEFAULT_SAFETY_POLICY, parseSafetyPolicy, type SafetyContext, type TherapeuticClasses } from './order-safety';
+
+const CLASSES: TherapeuticClasses = {
+    'Penicillins': ['Penicillin', 'Amoxicillin', 'Ampicillin'],
+    'NSAIDs': ['Ibuprofen', 'Diclofenac'],
+};
+
+const chart = (context: Partial<SafetyContext>): SafetyContext => ({ allergies: [], activeMedications: [], ...context });
+
+const cases: { name: string, drug: string, context: SafetyContext, policy?: string, expected: { check: string, action: string, message: string }[] }[] = [
+    {
+        name: 'an allergy to the same drug blocks',
+        drug: 'Amoxicillin', context: chart({ allergies: [{ name: 'amoxicillin' }] }),
+        expected: [{ check: 'drug_allergy', action: 'block', message: 'The patient is allergic to amoxicillin.' }],
+    },
+    {
+        name: 'an allergy to a drug of the same class blocks',
+        drug: 'Amoxicillin', context: chart({ allergies: [{ name: 'Penicillin' }] }),
+        expected: [{ check: 'drug_allergy', action: 'block', message: 'The patient is allergic to Penicillin, and Amoxicillin is in the same class (Penicillins).' }],
+    },
+    {
+        name: 'an allergy naming the class blocks',
+        drug: 'Ampicillin 250 mg', context: chart({ allergies: [{ name: 'Penicillins' }] }),
+        expected: [{ check: 'drug_allergy', action: 'block', message: 'The patient is allergic to Penicillins, and Ampicillin 250 mg is in the same class (Penicillins).' }],
+    },
+    {
+        name: 'an allergy only warns when the policy says so',
+        drug: 'Amoxicillin', context: chart({ allergies: [{ name: 'Amoxicillin' }] }), policy: 'drug_allergy=warning',
+        expected: [{ check: 'drug_allergy', action: 'warning', message: 'The patient is allergic to Amoxicillin.' }],
+    },
+    {
+        name: 'an active order of the same drug warns, whatever its strength',
+        drug: 'Ibuprofen', context: chart({ activeMedications: [{ name: 'Ibuprofen 400mg' }] }),
+        expected: [{ check: 'duplicate_drug', action: 'warning', message: 'Ibuprofen 400mg is already an active order.' }],
+    },
+    {
+        name: 'an active order of the same class warns',
+        drug: 'Ibuprofen', context: chart({ activeMedications: [{ name: 'Diclofenac 50 mg' }] }),
+        expected: [{ check: 'duplicate_class', action: 'warning', message: 'Diclofenac 50 mg is already an active order in the same class (NSAIDs).' }],
+    },
+    {
+        name: 'a duplicate blocks when the policy says so',
+        drug: 'Ibuprofen', context: chart({ activeMedications: [{ name: 'Ibuprofen' }, { name: 'Diclofenac' }] }), policy: 'duplicate_drug=block',
+        expected: [
+            { check: 'duplicate_drug', action: 'block', message: 'Ibuprofen is already an active order.' },
+            { check: 'duplicate_class', action: 'warning', message: 'Diclofenac is already an active order in the same class (NSAIDs).' },
+        ],
+    },
+    {
+        name: 'an ignored check reports nothing',
+        drug: 'Ibuprofen', context: chart({ activeMedications: [{ name: 'Diclofenac' }] }), policy: 'duplicate_class=ignore',
+        expected: [],
+    },
+    {
+        name: 'drugs of other classes, or in no class, are not flagged',
+        drug: 'Paracetamol', context: chart({ allergies: [{ name: 'Penicillin' }], activeMedications: [{ name: 'Ibuprofen' }, { name: 'Metformin' }] }),
+        expected: [],
+    },
+    {
+        name: 'a name is only matched as whole words',
+        drug: 'Ampicillin', context: chart({ allergies: [{ name: 'Cillin' }], activeMedications: [{ name: 'Ampicillin-sulbactam' }] }),
+        expected: [{ check: 'duplicate_drug', action: 'warning', message: 'Ampicillin-sulbactam is already an active order.' }],
+    },
+];
+
+for (const { name, drug, context, policy, expected } of cases) {
+    test(name, () => {
+        const findings = checkOrderSafety(drug, context, CLASSES, parseSafetyPolicy(policy));
+
+        assert.deepEqual(findings, expected.map(f => ({ medication: drug, ...f })));
+    });
+}
+
+test('the policy is read on top of the defaults', () => {
+    assert.deepEqual(parseSafetyPolicy(undefined), DEFAULT_SAFETY_POLICY);
+    assert.deepEqual(parseSafetyPolicy(' duplicate_class = ignore, drug_allergy=warning '), {
+        drug_allergy: 'warning',
+        duplicate_drug: 'warning',
+        duplicate_class: 'ignore',
+    });
+});
+
+test('an unknown check or action in the policy is refused', () => {
+    assert.throws(() => parseSafetyPolicy('interaction=block'), /Unknown order safety check 'interaction'/);
+    assert.throws(() => parseSafetyPolicy('drug_allergy=stop'), /Invalid action 'stop' for order safety check 'drug_allergy'/);
+});
@@ -0,0 +1,131 @@
+import fs from 'fs';
+
+export const SAFETY_CHECKS = ['drug_allergy', 'duplicate_drug', 'duplicate_class'] as const;
+
+export type SafetyCheck = typeof SAFETY_CHECKS[number];
+
+/**
+ * What to do when a check fires: report it and order anyway, skip the order, or nothing.
+ */
+export type SafetyAction = 'warning' | 'block' | 'ignore';
+
+export type SafetyPolicy = { [check in SafetyCheck]: SafetyAction };
+
+export type SafetyFinding = {
+    medication: string;
+    check: SafetyCheck;
+    action: 'warning' | 'block';
+    message: string;
+};
+
+/**
+ * What the chart already holds that a new order is checked against.
+ */
+export type SafetyContext = {
+    allergies: { name: string }[];
+    activeMedications: { name: string }[];
+};
+
+// Drug class name to the drugs (and allergen names) in it, e.g. { "Penicillins": ["Penicillin", "Amoxicillin"] }
+export type TherapeuticClasses = { [className: string]: string[] };
+
+export const DEFAULT_SAFETY_POLICY: SafetyPolicy = {
+    drug_allergy: 'block',
+    duplicate_drug: 'warning',
+    duplicate_class: 'warning',
+};
+
+/**
+ * Reads a policy such as "drug_allergy=block,duplicate_class=ignore" on top of the defaults.
+ */
+export function parseSafetyPolicy(policy: string | undefined): SafetyPolicy {
+    const parsed: SafetyPolicy = { ...DEFAULT_SAFETY_POLICY };
+
+    for (const entry of (policy || '').split(',').map(e => e.trim()).filter(Boolean)) {
+        const [check, action] = entry.split('=').map(p => p.trim());
+        if (!SAFETY_CHECKS.includes(check as SafetyCheck)) {
+            throw new Error(`Unknown order safety check '${check}'. Expected one of: ${SAFETY_CHECKS.join(', ')}`);
+        }
+        if (!['warning', 'block', 'ignore'].includes(action)) {
+            throw new Error(`Invalid action '${action}' for order safety check '${check}'. Expected 'warning', 'block' or 'ignore'.`);
+        }
+        parsed[check as SafetyCheck] = action as SafetyAction;
+    }
+
+    return parsed;
+}
+
+/**
+ * Reads the site's therapeutic class file, or returns no classes when there is none.
+ */
+export function loadTherapeuticClasses(filePath: string | undefined): TherapeuticClasses {
+    if (!filePath) return {};
+
+    const classes = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    for (const [className, drugs] of Object.entries(classes)) {
+        if (!Array.isArray(drugs) || drugs.some(d => typeof d !== 'string')) {
+            throw new Error(`Therapeutic class '${className}' in ${filePath} must be a list of drug names.`);
+        }
+    }
+    console.log(`Loaded ${Object.keys(classes).length} therapeutic classes from ${filePath}.`);
+    return classes;
+}
+
+/**
+ * Checks a drug about to be ordered against the patient's allergies and active orders,
+ * both for the same drug and for drugs of the same therapeutic class.
+ */
+export function checkOrderSafety(drugName: string, context: SafetyContext, classes: TherapeuticClasses, policy: SafetyPolicy): SafetyFinding[] {
+    const findings: SafetyFinding[] = [];
+    const report = (check: SafetyCheck, message: string) => {
+        const action = policy[check];
+        if (action !== 'ignore') findings.push({ medication: drugName, check, action, message });
+    };
+
+    const drugClasses = classesOf(drugName, classes);
+
+    for (const allergy of context.allergies) {
+        if (isSameDrug(drugName, allergy.name)) {
+            report('drug_allergy', `The patient is allergic to ${allergy.name}.`);
+            continue;
+        }
+        const sharedClass = drugClasses.find(c => classesOf(allergy.name, classes).includes(c));
+        if (sharedClass) {
+            report('drug_allergy', `The patient is allergic to ${allergy.name}, and ${drugName} is in the same class (${sharedClass}).`);
+        }
+    }
+
+    for (const medication of context.activeMedications) {
+        if (isSameDrug(drugName, medication.name)) {
+            report('duplicate_drug', `${medication.name} is already an active order.`);
+            continue;
+        }
+        const sharedClass = drugClasses.find(c => classesOf(medication.name, classes).includes(c));
+        if (sharedClass) {
+            report('duplicate_class', `${medication.name} is already an active order in the same class (${sharedClass}).`);
+        }
+    }
+
+    return findings;
+}
+
+/**
+ * Names match when one contains the other as whole words, so that "Paracetamol" matches
+ * the active order "Paracetamol 500mg".
+ * @private
+ */
+function isSameDrug(a: string, b: string): boolean {
+    const words = (s: string) => ` ${s.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim()} `;
+    const [wordsA, wordsB] = [words(a), words(b)];
+    return wordsA.trim().length > 0 && wordsB.trim().length > 0 && (wordsA.includes(wordsB) || wordsB.includes(wordsA));
+}
+
+/**
+ * The classes a drug or allergen belongs to, including a class it names, such as an allergy to "Penicillins".
+ * @private
+ */
+function classesOf(name: string, classes: TherapeuticClasses): string[] {
+    return Object.entries(classes)
+        .filter(([className, members]) => isSameDrug(name, className) || members.some(member => isSameDrug(name, member)))
+        .map(([className]) => className);
+}
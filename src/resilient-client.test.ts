@@ -0,0 +1,89 @@
+import assert from 'node:assert/strict';
+import http from 'node:http';
+import { type AddressInfo } from 'node:net';
+import { test } from 'node:test';
+import axios from 'axios';
+import { CompensationLog } from './compensation';
+import { OpenMRSAuth, useOpenMRSAuth } from './openmrs-auth';
+import { bypassCircuitBreakers, CircuitBreaker, CircuitOpenError, makeResilient } from './resilient-client';
+
+const COOLDOWN_MS = 100;
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+test('a probe whose sign-in fails does not keep the breaker open once OpenMRS is back', async () => {
+    // What the fake OpenMRS answers: the API, and GET /session
+    let api = 503;
+    let signIn = 200;
+    const server = http.createServer((req, res) => {
+        if (req.url === '/session') {
+            res.statusCode = signIn;
+            if (signIn === 200) res.setHeader('Set-Cookie', 'JSESSIONID=abc; Path=/');
+            return res.end(JSON.stringify({ authenticated: signIn === 200 }));
+        }
+        res.statusCode = api;
+        res.end('{}');
+    });
+    await new Promise<void>(resolve => server.listen(0, resolve));
+    const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    try {
+        // Registered in the same order as by createOpenMRSApi
+        const client = axios.create({ baseURL: baseUrl });
+        const auth = new OpenMRSAuth({ method: 'session', username: 'admin', password: 'secret' }, baseUrl);
+        useOpenMRSAuth(client, auth);
+        makeResilient(client, new CircuitBreaker('OpenMRS', 2, COOLDOWN_MS), {
+            timeoutMs: 1000, maxRetries: 0, retryBaseDelayMs: 1, breakerThreshold: 2, breakerCooldownMs: COOLDOWN_MS,
+        });
+
+        // Trip the breaker
+        await assert.rejects(client.get('/a'));
+        await assert.rejects(client.get('/a'));
+        await assert.rejects(client.get('/a'), CircuitOpenError);
+
+        // The session expires, and signing in again fails on the probe
+        await auth.expire(await auth.current());
+        signIn = 503;
+        await wait(COOLDOWN_MS + 20);
+        await assert.rejects(client.get('/a'), (error: Error) => !(error instanceof CircuitOpenError));
+
+        // OpenMRS recovers: after the next cooldown a probe gets through again
+        signIn = 200;
+        api = 200;
+        await wait(COOLDOWN_MS + 20);
+        const response = await client.get('/a');
+        assert.equal(response.status, 200);
+        assert.equal((await client.get('/a')).status, 200);
+    } finally {
+        server.closeAllConnections();
+        server.close();
+    }
+});
+
+test('undoing writes is not refused by an open breaker', async () => {
+    let status = 503;
+    const server = http.createServer((_req, res) => {
+        res.statusCode = status;
+        res.end('{}');
+    });
+    await new Promise<void>(resolve => server.listen(0, resolve));
+
+    try {
+        const client = axios.create({ baseURL: `http://127.0.0.1:${(server.address() as AddressInfo).port}` });
+        makeResilient(client, new CircuitBreaker('OpenMRS', 1, 60 * 1000), {
+            timeoutMs: 1000, maxRetries: 0, retryBaseDelayMs: 1, breakerThreshold: 1, breakerCooldownMs: 60 * 1000,
+        });
+
+        await assert.rejects(client.post('/order', {}));
+        await assert.rejects(client.delete('/order/1'), CircuitOpenError);
+
+        // OpenMRS answers again long before the cooldown is over
+        status = 200;
+        const compensation = new CompensationLog(bypassCircuitBreakers);
+        compensation.record('Order 1', () => client.delete('/order/1'), { action: 'created', resource: 'order', id: '1' });
+        assert.deepEqual(await compensation.rollback(), { rolled_back: ['Order 1'], not_rolled_back: [] });
+    } finally {
+        server.closeAllConnections();
+        server.close();
+    }
+});
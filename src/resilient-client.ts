@@ -0,0 +1,190 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { isAxiosError, type AxiosError, type AxiosInstance, type InternalAxiosRequestConfig } from 'axios';
+
+/**
+ * How patiently a client waits for, and retries, a server.
+ */
+export type ResilienceOptions = {
+    // Per request; a call may pass its own `timeout`
+    timeoutMs: number;
+    // Further attempts of an idempotent request that failed for a reason that may pass
+    maxRetries: number;
+    // The first backoff; it doubles with every retry, with full jitter, up to MAX_BACKOFF_MS
+    retryBaseDelayMs: number;
+    // Consecutive failures after which the server is not called for `breakerCooldownMs`
+    breakerThreshold: number;
+    breakerCooldownMs: number;
+};
+
+const MAX_BACKOFF_MS = 5000;
+
+// Repeating these has the same effect as sending them once. A POST is never retried, as
+// OpenMRS may have acted on it even if the response was lost.
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'];
+
+// Statuses of a server that is overloaded or behind a proxy that lost it, rather than refusing the request
+const TRANSIENT_STATUSES = [429, 502, 503, 504];
+
+/**
+ * Thrown instead of calling a server that has just failed repeatedly.
+ */
+export class CircuitOpenError extends Error {
+    constructor(readonly server: string, readonly retryAfterMs: number) {
+        super(`${server} is unavailable; it will be tried again in ${Math.ceil(retryAfterMs / 1000)}s.`);
+        this.name = 'CircuitOpenError';
+    }
+}
+
+/**
+ * Stops calling a server after `threshold` consecutive failures. Once `cooldownMs` has passed,
+ * a single request is let through: if it succeeds the server is called as usual again,
+ * otherwise it waits another cooldown.
+ */
+export class CircuitBreaker {
+    private failures = 0;
+    private openedAt: number | null = null;
+    private probing = false;
+
+    constructor(readonly server: string, private readonly threshold: number, private readonly cooldownMs: number) {}
+
+    /**
+     * Throws a `CircuitOpenError` if the server should not be called now.
+     */
+    beforeRequest() {
+        if (this.openedAt === null) return;
+
+        const waited = Date.now() - this.openedAt;
+        if (waited < this.cooldownMs || this.probing) {
+            throw new CircuitOpenError(this.server, Math.max(this.cooldownMs - waited, 0));
+        }
+        this.probing = true;
+    }
+
+    recordSuccess() {
+        if (this.openedAt !== null) console.log(`${this.server} is answering again.`);
+        this.failures = 0;
+        this.openedAt = null;
+        this.probing = false;
+    }
+
+    /**
+     * Lets another request probe the server, when the probe failed without telling whether it is up.
+     */
+    releaseProbe() {
+        this.probing = false;
+    }
+
+    recordFailure() {
+        this.failures++;
+        this.probing = false;
+        if (this.openedAt !== null || this.failures >= this.threshold) {
+            if (this.openedAt === null) console.error(`${this.server} failed ${this.failures} times in a row; not calling it for ${this.cooldownMs / 1000}s.`);
+            this.openedAt = Date.now();
+        }
+    }
+}
+
+const bypassing = new AsyncLocalStorage<boolean>();
+
+/**
+ * Runs `run` with its requests sent even while a breaker is open. For writes that must be
+ * attempted whatever the breaker says, such as undoing the earlier writes of a failed note.
+ */
+export function bypassCircuitBreakers<T>(run: () => Promise<T>): Promise<T> {
+    return bypassing.run(true, run);
+}
+
+type AttemptedRequestConfig = InternalAxiosRequestConfig & { retryAttempt?: number };
+
+/**
+ * Gives a client a default timeout, retries of idempotent requests with jittered exponential
+ * backoff, and a circuit breaker, which may be shared by the clients of one server.
+ */
+export function makeResilient(client: AxiosInstance, breaker: CircuitBreaker, options: ResilienceOptions) {
+    client.defaults.timeout = options.timeoutMs;
+
+    // Registered before `supportDryRun`, so these run after it and can tell the requests it answers
+    client.interceptors.request.use((config: InternalAxiosRequestConfig) => {
+        if (!isAnsweredLocally(config) && !bypassing.getStore()) breaker.beforeRequest();
+        return config;
+    });
+
+    client.interceptors.response.use(
+        response => {
+            if (!isAnsweredLocally(response.config)) breaker.recordSuccess();
+            return response;
+        },
+        async (error: unknown) => {
+            // Refused by the breaker itself, so it never passed the gate
+            if (error instanceof CircuitOpenError) throw error;
+
+            // Raised after the gate by another interceptor, e.g. a failed sign-in. Only the probe passes
+            // the gate while the breaker is open, so this must settle the probe, or it would stay out for good.
+            if (!isAxiosError(error)) {
+                const cause = axiosCause(error);
+                if (!cause) breaker.releaseProbe();
+                else if (isServerFailure(cause)) breaker.recordFailure();
+                else breaker.recordSuccess();
+                throw error;
+            }
+
+            // A request cancelled on purpose says nothing about the server
+            if (!error.config || error.code === 'ERR_CANCELED') {
+                breaker.releaseProbe();
+                throw error;
+            }
+
+            // A refused request still shows the server is up
+            if (isServerFailure(error)) breaker.recordFailure();
+            else breaker.recordSuccess();
+
+            const config = error.config as AttemptedRequestConfig;
+            const attempt = config.retryAttempt ?? 0;
+            if (attempt >= options.maxRetries || !isRetryable(error)) throw error;
+
+            const delay = Math.random() * Math.min(options.retryBaseDelayMs * 2 ** attempt, MAX_BACKOFF_MS);
+            console.warn(`${config.method?.toUpperCase()} ${config.url} failed (${error.response?.status ?? error.code}); retrying in ${Math.round(delay)}ms.`);
+            await new Promise(resolve => setTimeout(resolve, delay));
+
+            config.retryAttempt = attempt + 1;
+            return client.request(config);
+        },
+    );
+}
+
+/**
+ * A request answered by an adapter of our own, such as a dry run's, which never reaches the server.
+ * @private
+ */
+function isAnsweredLocally(config: InternalAxiosRequestConfig): boolean {
+    return typeof config.adapter === 'function';
+}
+
+/**
+ * The first request error in the cause chain of an error.
+ * @private
+ */
+function axiosCause(error: unknown): AxiosError | undefined {
+    for (let current: any = error; current; current = current.cause) {
+        if (isAxiosError(current)) return current;
+    }
+    return undefined;
+}
+
+/**
+ * No answer, or an answer that the server failed.
+ * @private
+ */
+function isServerFailure(error: AxiosError): boolean {
+    const status = error.response?.status;
+    return !status || status >= 500;
+}
+
+/**
+ * @private
+ */
+function isRetryable(error: AxiosError): boolean {
+    if (!IDEMPOTENT_METHODS.includes((error.config?.method || 'get').toUpperCase())) return false;
+    const status = error.response?.status;
+    return !status || TRANSIENT_STATUSES.includes(status);
+}
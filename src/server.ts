@@ -1,15 +1,52 @@
 // src/server.ts
 
 import express, { Request, Response, NextFunction } from 'express';
+import { STATUS_CODES } from 'http';
 import cors from 'cors';
 import dotenv from 'dotenv';
 import { components } from '../src/emr-api-types';
-import * as OpenMRSFHIR from './openmrs-api';
+import { DEFAULT_PATIENT_PAGE_SIZE, InvalidCursorError, MAX_PATIENT_PAGE_SIZE, type EmrAdapter, type EncounterView, type NotePreview, type PostNoteResult } from './emr-adapter';
+import { RollbackError, type RollbackReport } from './compensation';
+import { IdempotencyConflictError, IdempotencyStore, hashRequest } from './idempotency-store';
+import { type SafetyFinding } from './order-safety';
+import { TenantRegistry, type Tenant } from './tenants';
+import { ApiKeyStore, hasScope, type ApiCaller, type ApiKeyScope } from './api-key-store';
+import { AuditLog, type AuditEntry, type AuditOutcome } from './audit-log';
+import { FAILURE_STATUS, failureReason, type FailureReason, type NoteItemResult } from './note-results';
+import { NoteValidationError, validateNoteForm, type NoteProblem } from './note-schema';
 
 // --- Configuration & Setup ---
 dotenv.config();
-const { PORT, BASE_URL, API_KEY, OPENMRS_FRONTEND_URL } = process.env;
-if (!PORT || !BASE_URL || !API_KEY || !OPENMRS_FRONTEND_URL) throw new Error("...");
+const { PORT, BASE_URL } = process.env;
+if (!PORT || !BASE_URL) throw new Error("...");
+
+// A setting that must be a positive number, or `fallback` when it is not set
+const positiveNumberSetting = (name: string, fallback: number): number => {
+    const raw = process.env[name];
+    const value = raw === undefined || raw === '' ? fallback : Number(raw);
+    if (!Number.isFinite(value) || value <= 0) throw new Error(`Invalid ${name} '${raw}'. Expected a positive number.`);
+    return value;
+};
+
+// Each API key belongs to one tenant, with its own OpenMRS server
+const tenants = TenantRegistry.fromEnv();
+
+// Per-clinician keys, managed with `npm run keys`. Changes are picked up without a restart.
+const apiKeyStore = new ApiKeyStore(process.env.API_KEYS_PATH || 'data/api-keys.json');
+
+// Comma separated, in display order. See `patientLists` below for the available keys.
+const PATIENT_LISTS = (process.env.PATIENT_LISTS || 'all').split(',').map(l => l.trim()).filter(Boolean);
+const RECENTLY_SEEN_DAYS = positiveNumberSetting('RECENTLY_SEEN_DAYS', 7);
+
+// Replays of POST /notes within this window return the original encounter. Keys are kept per tenant.
+const IDEMPOTENCY_STORE_PATH = process.env.IDEMPOTENCY_STORE_PATH || 'data/idempotency.json';
+const IDEMPOTENCY_WINDOW_HOURS = positiveNumberSetting('IDEMPOTENCY_WINDOW_HOURS', 24);
+const idempotencyStore = new IdempotencyStore<PostNoteResult>(IDEMPOTENCY_STORE_PATH, IDEMPOTENCY_WINDOW_HOURS * 60 * 60 * 1000,
+    encounter_id => ({ encounter_id, order_safety: [], items: [], changes: [] }));
+
+// Every POST /notes, with the resources it wrote, is appended here
+const auditLog = new AuditLog(process.env.AUDIT_LOG_PATH || 'data/audit.jsonl');
+const MAX_AUDIT_PAGE_SIZE = 1000;
 
 const app = express();
 app.use(cors());
@@ -18,33 +55,117 @@ app.use(express.json({ limit: '50mb' }));
 // --- Type Definitions ---
 type EndpointsResponse = components['schemas']['EndpointsResponse'];
 type PatientListResponse = components['schemas']['PatientListResponse'];
+type PatientDetails = components['schemas']['PatientDetails'];
 type PostNoteForm = components['schemas']['PostNoteForm'];
+// Who wrote the note, where and in what kind of visit; each falls back to the provider map and then the env defaults
+type PostNoteRequest = PostNoteForm & { provider_uuid?: string; location_uuid?: string; visit_type?: string };
 type PostNoteResponse = components['schemas']['PostNoteResponse'];
 type GetSummaryResponse = components['schemas']['GetSummaryResponse'];
 type EncounterListResponse = components['schemas']['EncounterListResponse'];
 type GetEncounterNoteResponse = components['schemas']['GetEncounterNoteResponse'];
 type GetMedicationTemplatesResponse = components['schemas']['GetMedicationTemplatesResponse']
-type MedicationOrder = components['schemas']['MedicationOrder']
 type ErrorResponse = components['schemas']['ErrorResponse'];
 
+// Search and paging parameters accepted by GET /patients
+type PatientListQuery = {
+    name?: string;
+    identifier?: string;
+    birthdate?: string;
+    gender?: string;
+    page_size?: string;
+    cursor?: string;
+};
+type PagedPatientListResponse = PatientListResponse & { next_cursor: string | null };
+type NoteErrorResponse = ErrorResponse & { reason: FailureReason, problems?: NoteProblem[] };
+type RollbackErrorResponse = NoteErrorResponse & RollbackReport;
+type EncounterViewResponse = { encounter: EncounterView };
+type PostNoteResultResponse = PostNoteResponse & { order_safety: SafetyFinding[], items: NoteItemResult[] };
+type NotePreviewResponse = NotePreview & { dry_run: true };
+type AuditQueryParams = { patient_id?: string, encounter_id?: string, from?: string, to?: string, limit?: string };
+
 // --- Middleware ---
-const requireApiKey = (req: Request, res: Response, next: NextFunction) => {
+const requireApiKey = (scope: ApiKeyScope) => (req: Request, res: Response, next: NextFunction) => {
     const authHeader = req.headers.authorization;
     const token = authHeader?.startsWith('Bearer ') ? authHeader.split(' ')[1] : null;
 
-    if (token && token === API_KEY) return next();
-    res.status(401).json({ error: 'Unauthorized', message: '...' });
+    let caller: ApiCaller | undefined;
+    let tenant: Tenant | undefined;
+    if (token) {
+        caller = apiKeyStore.authenticate(token);
+        tenant = caller && tenants.get(caller.tenant);
+        if (!caller) {
+            // A tenant's shared key may do everything, as before per-clinician keys
+            tenant = tenants.forSharedApiKey(token);
+            caller = tenant && { key_id: null, tenant: tenant.id, owner: 'shared key', scopes: ['read', 'write'] };
+        }
+    }
+
+    if (!caller || !tenant) {
+        return res.status(401).json({ error: 'Unauthorized', message: '...' });
+    }
+    if (!hasScope(caller, scope)) {
+        return res.status(403).json({ error: 'Forbidden', message: `This API key does not have the '${scope}' scope.` });
+    }
+    res.locals.tenant = tenant;
+    res.locals.caller = caller;
+    next();
+};
+
+// The caller's tenant and key, set by `requireApiKey`
+const tenantOf = (res: Response): Tenant => res.locals.tenant;
+const callerOf = (res: Response): ApiCaller => res.locals.caller;
+
+// The Mercurie user a request is made for: the owner of a clinician's own key, or the X-Mercurie-User a shared key names
+const mercurieUserOf = (req: Request, res: Response): string | undefined => {
+    const caller = callerOf(res);
+    return caller.key_id ? caller.owner : req.header('X-Mercurie-User');
+};
+
+// An EMR that is down or too slow is a 503, so Mercurie can tell it from a fault of the adapter
+const sendReadError = (res: Response<ErrorResponse>, error: unknown) => {
+    const status = failureReason(error) === 'unavailable' ? 503 : 500;
+    res.status(status).json({ error: STATUS_CODES[status]!, message: (error as Error).message });
 };
 
+// Express parses a repeated query parameter into an array, and `a[b]=c` into an object
+const findNonStringParam = (query: { [param: string]: unknown }, params: string[]): string | undefined =>
+    params.find(param => query[param] !== undefined && typeof query[param] !== 'string');
+
+// --- Patient Lists ---
+
+// The clinical lists that can be switched on through PATIENT_LISTS, in addition to the paged "all" list.
+// A list the tenant's EMR does not provide fails, and is left out like any other failed list.
+const patientLists: { [key: string]: { list_name: string, fetch: (emr: EmrAdapter, user?: string) => Promise<PatientDetails[]> | undefined } } = {
+    active_visits: {
+        list_name: "Patients with an active visit",
+        fetch: emr => emr.getActiveVisitPatients?.(),
+    },
+    todays_appointments: {
+        list_name: "Today's appointments",
+        fetch: emr => emr.getTodaysAppointmentPatients?.(),
+    },
+    recently_seen: {
+        list_name: `Seen by me in the last ${RECENTLY_SEEN_DAYS} days`,
+        fetch: (emr, user) => {
+            if (!user) throw new Error("A shared API key must name the Mercurie user in X-Mercurie-User for the 'recently_seen' list.");
+            return emr.getRecentlySeenPatients?.(RECENTLY_SEEN_DAYS, user);
+        },
+    },
+};
+
+const unknownPatientLists = PATIENT_LISTS.filter(key => key !== 'all' && !(key in patientLists));
+if (unknownPatientLists.length > 0) throw new Error(`Unknown PATIENT_LISTS entries: ${unknownPatientLists.join(', ')}`);
+
+
 // --- API Endpoints ---
 
 // 0. GET /endpoints
-app.get('/endpoints', requireApiKey, (req: Request, res: Response<EndpointsResponse>) => {
+app.get('/endpoints', requireApiKey('read'), (req: Request, res: Response<EndpointsResponse>) => {
     console.log(`[${new Date().toISOString()}] GET /endpoints`);
     res.status(200).json({
         get_patients: `${BASE_URL}/patients`,
         post_note: `${BASE_URL}/notes`,
-        patient_chart_page: `${OPENMRS_FRONTEND_URL}/patient/:patientId/chart/Patient%20Summary`,
+        patient_chart_page: tenantOf(res).api.patientChartPage,
         get_patient_summary: `${BASE_URL}/patient-summary/:patientId`,
         get_patient_encounters: `${BASE_URL}/patients/:patientId/encounters`,
         get_encounter_note: `${BASE_URL}/encounters/:encounterId`,
@@ -52,55 +173,203 @@ app.get('/endpoints', requireApiKey, (req: Request, res: Response<EndpointsRespo
     });
 });
 
-// 1. GET /patients
-app.get('/patients', requireApiKey, async (req: Request, res: Response<PatientListResponse | ErrorResponse>) => {
+// 1. GET /patients?name=&identifier=&birthdate=&gender=&page_size=&cursor=
+app.get('/patients', requireApiKey('read'), async (req: Request<{}, {}, {}, PatientListQuery>, res: Response<PagedPatientListResponse | ErrorResponse>) => {
     console.log(`[${new Date().toISOString()}] GET /patients`);
+
+    const { name, identifier, birthdate, gender, page_size, cursor } = req.query;
+
     try {
-        // Use the FHIR service
-        const patients = await OpenMRSFHIR.getPatients();
-        res.status(200).json({ patient_lists: [ { list_name: "All Patients", patients } ] });
+        const invalidParam = findNonStringParam(req.query, ['name', 'identifier', 'birthdate', 'gender', 'page_size', 'cursor']);
+        if (invalidParam) {
+            return res.status(400).json({ error: 'Bad Request', message: `${invalidParam} must be given once, as text.` });
+        }
+
+        const pageSize = page_size !== undefined ? Number(page_size) : DEFAULT_PATIENT_PAGE_SIZE;
+        if (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > MAX_PATIENT_PAGE_SIZE) {
+            return res.status(400).json({ error: 'Bad Request', message: `page_size must be an integer between 1 and ${MAX_PATIENT_PAGE_SIZE}.` });
+        }
+        if (gender !== undefined && !['male', 'female', 'other', 'unknown'].includes(gender.toLowerCase())) {
+            return res.status(400).json({ error: 'Bad Request', message: "gender must be one of 'male', 'female', 'other' or 'unknown'." });
+        }
+
+        // The clinical lists are only sent with the first page of an unfiltered request
+        const isFirstUnfilteredPage = !name && !identifier && !birthdate && !gender && !cursor;
+
+        // Searching or paging always returns the "All Patients" list, even if it is not configured
+        const listKeys = isFirstUnfilteredPage ? PATIENT_LISTS : ['all'];
+
+        const emr = tenantOf(res).api;
+        const user = mercurieUserOf(req, res);
+
+        let next_cursor: string | null = null;
+
+        // A list that fails (e.g. the appointments module is not installed) is left out rather than failing the request
+        const lists = await Promise.allSettled(listKeys.map(async key => {
+            if (key !== 'all') {
+                const patients = await patientLists[key].fetch(emr, user);
+                if (!patients) throw new Error(`The tenant's EMR does not provide the '${key}' list.`);
+                return { list_name: patientLists[key].list_name, patients };
+            }
+
+            // Use the FHIR service
+            const page = await emr.getPatients({
+                name,
+                identifier,
+                birthdate,
+                gender: gender?.toLowerCase(),
+                page_size: pageSize,
+                cursor,
+            });
+            next_cursor = page.next_cursor;
+            return { list_name: "All Patients", patients: page.patients };
+        }));
+
+        // The paged list is the one the caller asked for, so its failure is the request's failure
+        const allPatients = lists[listKeys.indexOf('all')];
+        if (allPatients?.status === 'rejected') throw allPatients.reason;
+
+        const patient_lists = lists.flatMap(result => {
+            if (result.status === 'fulfilled') return [result.value];
+            console.error("Error building patient list:", result.reason?.message);
+            return [];
+        });
+
+        res.status(200).json({ patient_lists, next_cursor });
     } catch (error) {
-        res.status(500).json({ error: 'Internal Server Error', message: (error as Error).message });
+        if (error instanceof InvalidCursorError) {
+            return res.status(400).json({ error: 'Bad Request', message: error.message });
+        }
+        sendReadError(res, error);
     }
 });
 
 // 2. POST /notes
-app.post('/notes', requireApiKey, async (req: Request<{}, {}, PostNoteForm>, res: Response<PostNoteResponse | ErrorResponse>) => {
+app.post('/notes', requireApiKey('write'), async (req: Request<{}, {}, PostNoteRequest, { dryRun?: string }>, res: Response<PostNoteResultResponse | NotePreviewResponse | ErrorResponse | NoteErrorResponse | RollbackErrorResponse>) => {
     console.log(`[${new Date().toISOString()}] POST /notes request received.`);
-    
+
+    // With dryRun=true nothing is written, recorded for idempotency or audited
+    const { dryRun } = req.query;
+    if (dryRun !== undefined && dryRun !== 'true' && dryRun !== 'false') {
+        return res.status(400).json({ error: 'Bad Request', message: `Invalid dryRun '${dryRun}'. Expected 'true' or 'false'.` });
+    }
+    const isDryRun = dryRun === 'true';
+
+    // The Mercurie user, mapped to an OpenMRS provider through PROVIDER_MAP_PATH
+    const caller = callerOf(res);
+    const mercurieUser = mercurieUserOf(req, res);
+
+    // Without an Idempotency-Key header, an identical body counts as a retry
+    const requestHash = hashRequest(mercurieUser ? { ...req.body, mercurie_user: mercurieUser } : req.body);
+    const tenant = tenantOf(res);
+    const idempotencyKey = `${tenant.id}:${req.header('Idempotency-Key') || requestHash}`;
+
+    const audit = (outcome: AuditOutcome, status: number, details: Partial<AuditEntry>) => {
+        if (isDryRun) return;
+        try {
+            auditLog.append({
+                tenant: tenant.id,
+                caller: { key_id: caller.key_id, owner: caller.owner, mercurie_user: mercurieUser || null },
+                patient_id: req.body.patient_id || null,
+                encounter_id: req.body.encounter_id || null,
+                request_hash: requestHash,
+                outcome,
+                status,
+                error: null,
+                changes: [],
+                rollback: null,
+                ...details,
+            });
+        } catch (error) {
+            // The chart has been written either way; the missing entry must be noticed
+            console.error(`AUDIT LOG WRITE FAILED for ${outcome} POST /notes (request ${requestHash}):`, (error as Error).message);
+        }
+    };
+
+    // A clinician's own key cannot chart as another user
+    const namedUser = req.header('X-Mercurie-User');
+    if (caller.key_id && namedUser && namedUser.trim().toLowerCase() !== caller.owner.trim().toLowerCase()) {
+        const message = `This API key belongs to '${caller.owner}' and cannot be used for '${namedUser}'.`;
+        audit('rejected', 403, { error: message });
+        return res.status(403).json({ error: 'Forbidden', message });
+    }
+
     try {
         // Call the single "upsert" function that contains the create vs. update logic.
-        const encounterId = await OpenMRSFHIR.postNote(req.body);
-        res.status(200).json({ encounter_id: encounterId });
+        const { provider_uuid, location_uuid, visit_type, ...noteData } = req.body;
+        const contextRequest = { provider: provider_uuid, location: location_uuid, visitType: visit_type, user: mercurieUser, userOwnsKey: !!caller.key_id };
+        // An invalid note is refused before OpenMRS is asked anything
+        validateNoteForm(noteData);
+
+        if (isDryRun) {
+            if (!tenant.api.previewNote) {
+                return res.status(501).json({ error: 'Not Implemented', message: "The tenant's EMR does not support dry runs." });
+            }
+            const context = await tenant.api.resolveWriteContext(contextRequest);
+            const preview = await tenant.api.previewNote(noteData, context);
+            const partial = preview.items.some(item => item.status !== 'success');
+            return res.status(partial ? 207 : 200).json({ dry_run: true, ...preview });
+        }
+
+        const { result, replayed } = await idempotencyStore.run(idempotencyKey, requestHash, async () => {
+            const context = await tenant.api.resolveWriteContext(contextRequest);
+            return tenant.api.postNote(noteData, context);
+        });
+        if (replayed) res.setHeader('Idempotent-Replayed', 'true');
+
+        // The note was saved, but a diagnosis or medication was not: failed, or blocked by the safety checks
+        const partial = result.items.some(item => item.status !== 'success');
+        const status = partial ? 207 : 200;
+        // A replay wrote nothing; the original request's entry lists its changes
+        audit(replayed ? 'replayed' : partial ? 'partial' : 'success', status, { encounter_id: result.encounter_id, changes: replayed ? [] : result.changes });
+        res.status(status).json({ encounter_id: result.encounter_id, order_safety: result.order_safety, items: result.items });
     } catch (error) {
         // Provide a more informative error message to the client
         const errorMessage = error instanceof Error ? error.message : "An unknown error occurred.";
         console.error("Error in POST /notes:", errorMessage);
-        res.status(500).json({ error: 'Internal Server Error', message: errorMessage });
+        if (error instanceof IdempotencyConflictError) {
+            audit('rejected', 422, { error: errorMessage });
+            return res.status(422).json({ error: 'Unprocessable Entity', message: errorMessage });
+        }
+
+        // Invalid requests and unresolvable terminology are 4xx, OpenMRS failures and outages 5xx
+        const reason = failureReason(error);
+        const status = FAILURE_STATUS[reason];
+        const body: NoteErrorResponse = { error: STATUS_CODES[status]!, message: errorMessage, reason };
+        // Each problem points into the request body, for Mercurie to show next to the field
+        if (error instanceof NoteValidationError) body.problems = error.problems;
+        if (error instanceof RollbackError && !isDryRun) {
+            audit('rolled_back', status, { error: errorMessage, changes: error.changes, rollback: error.report });
+            // Tell the client exactly what was undone and what is left in the chart
+            res.status(status).json({ ...body, ...error.report });
+        } else {
+            audit(reason === 'validation' ? 'rejected' : 'failed', status, { error: errorMessage });
+            res.status(status).json(body);
+        }
     }
 });
 
 
 
 // 3. GET /patients/:patientId/encounters
-app.get('/patients/:patientId/encounters', requireApiKey, async (req: Request<{ patientId: string }>, res: Response<EncounterListResponse | ErrorResponse>) => {
+app.get('/patients/:patientId/encounters', requireApiKey('read'), async (req: Request<{ patientId: string }>, res: Response<EncounterListResponse | ErrorResponse>) => {
     const { patientId } = req.params;
     console.log(`[${new Date().toISOString()}] GET /patients/${patientId}/encounters`);
     try {
         // Use the FHIR service
-        const encounters = await OpenMRSFHIR.getPatientEncounters(patientId);
+        const encounters = await tenantOf(res).api.getPatientEncounters(patientId);
         res.status(200).json({ encounters });
     } catch (error) {
-        res.status(500).json({ error: 'Internal Server Error', message: (error as Error).message });
+        sendReadError(res, error);
     }
 });
 
 // 3. GET /patient-summary/:patientId - To fetch the clinical summary
-app.get('/patient-summary/:patientId', requireApiKey, async (req: Request<{ patientId: string }>, res: Response<GetSummaryResponse | ErrorResponse>) => {
+app.get('/patient-summary/:patientId', requireApiKey('read'), async (req: Request<{ patientId: string }>, res: Response<GetSummaryResponse | ErrorResponse>) => {
     const { patientId } = req.params;
     console.log(`[${new Date().toISOString()}] GET /patient-summary/${patientId}`);
     try {
-        const summary = await OpenMRSFHIR.getPatientSummary(patientId);
+        const summary = await tenantOf(res).api.getPatientSummary(patientId);
 
         if (summary != null) {
             res.status(200).json({ summary_notes: summary });
@@ -108,101 +377,92 @@ app.get('/patient-summary/:patientId', requireApiKey, async (req: Request<{ pati
             res.status(404).json({ error: 'Not Found', message: 'No summary found for this patient.' });
         }
     } catch (error) {
-        res.status(500).json({ error: 'Internal Server Error', message: (error as Error).message });
+        sendReadError(res, error);
     }
 });
 
-// 4. GET /encounters/:encounterId
-app.get('/encounters/:encounterId', requireApiKey, async (req: Request<{ encounterId: string }>, res: Response<GetEncounterNoteResponse | ErrorResponse>) => {
+// 4. GET /encounters/:encounterId?format=json - The visit as a markdown note, or structured
+app.get('/encounters/:encounterId', requireApiKey('read'), async (req: Request<{ encounterId: string }, {}, {}, { format?: string }>, res: Response<GetEncounterNoteResponse | EncounterViewResponse | ErrorResponse>) => {
     const { encounterId } = req.params;
+    const format = req.query.format || 'markdown';
     console.log(`[${new Date().toISOString()}] GET /encounters/${encounterId}`);
+
+    if (format !== 'markdown' && format !== 'json') {
+        return res.status(400).json({ error: 'Bad Request', message: "format must be 'markdown' or 'json'." });
+    }
+
     try {
         // Use the FHIR service
-        const note = await OpenMRSFHIR.getEncounterNote(encounterId);
-        if (note !== null) {
-            res.status(200).json({ note });
+        if (format === 'json') {
+            const encounter = await tenantOf(res).api.getEncounterView(encounterId);
+            if (encounter !== null) return res.status(200).json({ encounter });
         } else {
-            res.status(404).json({ error: 'Not Found', message: `No note found for encounter ${encounterId}.` });
+            const note = await tenantOf(res).api.getEncounterNote(encounterId);
+            if (note !== null) return res.status(200).json({ note });
         }
+        res.status(404).json({ error: 'Not Found', message: `No note found for encounter ${encounterId}.` });
     } catch (error) {
-        res.status(500).json({ error: 'Internal Server Error', message: (error as Error).message });
+        sendReadError(res, error);
     }
 });
 
 
-// 5. GET /med-templates - To fetch medication order templates
-app.get('/med-templates', requireApiKey, (_req: Request, res: Response<GetMedicationTemplatesResponse>) => {
-  console.log(`[${new Date().toISOString()}] GET /patients request received.`);
+// 5. GET /med-templates?specialty=&provider= - To fetch medication order templates
+app.get('/med-templates', requireApiKey('read'), async (req: Request<{}, {}, {}, { specialty?: string, provider?: string }>, res: Response<GetMedicationTemplatesResponse | ErrorResponse>) => {
+    console.log(`[${new Date().toISOString()}] GET /med-templates request received.`);
+    try {
+        const invalidParam = findNonStringParam(req.query, ['specialty', 'provider']);
+        if (invalidParam) {
+            return res.status(400).json({ error: 'Bad Request', message: `${invalidParam} must be given once, as text.` });
+        }
+
+        const med_templates = await tenantOf(res).api.getMedicationTemplates(req.query);
+        res.status(200).json({ med_templates });
+    } catch (error) {
+        sendReadError(res, error);
+    }
+});
+
+// 6. GET /admin/audit?patient_id=&encounter_id=&from=&to=&limit=
+app.get('/admin/audit', requireApiKey('admin'), (req: Request<{}, {}, {}, AuditQueryParams>, res: Response<{ entries: AuditEntry[] } | ErrorResponse>) => {
+    console.log(`[${new Date().toISOString()}] GET /admin/audit`);
+    const { patient_id, encounter_id, from, to } = req.query;
 
-  const responseData: GetMedicationTemplatesResponse = {
-    med_templates,
-  };
+    const invalidDate = [from, to].find(date => date !== undefined && isNaN(Date.parse(date)));
+    if (invalidDate !== undefined) {
+        return res.status(400).json({ error: 'Bad Request', message: `Invalid date '${invalidDate}'. Use an ISO date such as 2024-05-01.` });
+    }
+    const limit = Number(req.query.limit || 100);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_AUDIT_PAGE_SIZE) {
+        return res.status(400).json({ error: 'Bad Request', message: `limit must be between 1 and ${MAX_AUDIT_PAGE_SIZE}.` });
+    }
 
-  res.status(200).json(responseData);
+    try {
+        const entries = auditLog.query({ tenant: tenantOf(res).id, patient_id, encounter_id, from, to, limit });
+        res.status(200).json({ entries });
+    } catch (error) {
+        res.status(500).json({ error: 'Internal Server Error', message: (error as Error).message });
+    }
 });
 
 
 // --- Start Server ---
-app.listen(PORT, () => {
+const server = app.listen(PORT, () => {
     console.log(`\n🩺 OpenMRS FHIR Adapter is running on ${BASE_URL}`);
-    console.log(`   Connected to OpenMRS FHIR at: ${process.env.OPENMRS_FHIR_BASE_URL}`);
+    tenants.tenants.forEach(tenant => console.log(`   Tenant '${tenant.id}': ${tenant.description}`));
     console.log('---------------------------------------------------------');
 });
 
+// Finish the requests in flight, then end each tenant's OpenMRS session
+const shutDown = (signal: string) => {
+    console.log(`${signal} received, shutting down.`);
+    server.close(async () => {
+        await Promise.allSettled(tenants.tenants.map(tenant => tenant.close()));
+        process.exit(0);
+    });
+    // Idle keep-alive connections would otherwise hold the server open
+    server.closeIdleConnections();
+};
+process.once('SIGTERM', () => shutDown('SIGTERM'));
+process.once('SIGINT', () => shutDown('SIGINT'));
 
-
-// --- Template Data ---
-
-const med_templates: MedicationOrder[] = [
-  {
-    name: "Aspirin",
-    strength: "81 mg",
-    dose: 1,
-    dose_unit: "Tablet",
-    route: "Oral",
-    frequency: "Once daily",
-    patient_instructions: "",
-    prn: false,
-    prn_reason: "",
-    duration: 7,
-    duration_unit: 'Days',
-    dispense_quantity: 7,
-    dispense_unit: 'Tablet',
-    refills: 0,
-    indication: 'Fever'
-  },
-  {
-    name: "Lisinopril",
-    strength: "10 mg",
-    dose: 1,
-    dose_unit: "Tablet",
-    route: "Oral",
-    frequency: "Once daily",
-    patient_instructions: "",
-    prn: false,
-    prn_reason: "",
-    duration: 7,
-    duration_unit: 'Days',
-    dispense_quantity: 7,
-    dispense_unit: 'Tablet',
-    refills: 0,
-    indication: 'Hypertension'
-  },
-  {
-    name: "Paracetamol",
-    strength: "500 mg",
-    dose: 1,
-    dose_unit: "Tablet",
-    route: "Oral",
-    frequency: "Twice daily",
-    patient_instructions: "Take after meals",
-    prn: false,
-    prn_reason: "",
-    duration: 7,
-    duration_unit: 'Days',
-    dispense_quantity: 14,
-    dispense_unit: 'Tablet',
-    refills: 0,
-    indication: 'Fever'
-  },
-]
\ No newline at end of file
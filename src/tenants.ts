@@ -0,0 +1,154 @@
+import fs from 'fs';
+import { hashApiKey, isSameHash } from './api-key-store';
+import { type EmrAdapter, type EmrAdapterDefinition, type TenantSettings } from './emr-adapter';
+import { openmrsAdapter } from './openmrs-api';
+
+// The EMRs a tenant can use, by the name given in its `emr` setting or EMR_ADAPTER
+const EMR_ADAPTERS: { [emr: string]: EmrAdapterDefinition<any> } = {
+    openmrs: openmrsAdapter,
+};
+
+const DEFAULT_EMR = 'openmrs';
+
+/**
+ * One facility and its EMR. The adapter, with its own clients and caches, is only created
+ * when the tenant is first used.
+ */
+export class Tenant {
+    private adapter?: EmrAdapter;
+
+    constructor(
+        readonly id: string,
+        readonly name: string,
+        // Shared keys from the tenant settings; per-clinician keys are in the API key store
+        readonly apiKeyHashes: string[],
+        private readonly emr: EmrAdapterDefinition<unknown>,
+        readonly config: unknown,
+    ) {}
+
+    // Where the tenant's EMR is
+    get description(): string {
+        return this.emr.describe(this.config);
+    }
+
+    get api(): EmrAdapter {
+        if (!this.adapter) {
+            console.log(`Connecting tenant '${this.id}' to ${this.description}`);
+            this.adapter = this.emr.create(this.config);
+        }
+        return this.adapter;
+    }
+
+    /**
+     * Lets the adapter, if it was ever used, end its session with the EMR.
+     */
+    async close() {
+        await this.adapter?.close?.();
+    }
+}
+
+/**
+ * The tenants, and the shared API key each may still have.
+ *
+ * With TENANTS_PATH set, the tenants are read from that JSON file:
+ * {
+ *   "tenants": [
+ *     { "id": "north", "name": "North Clinic", "api_keys": ["..."], "openmrs_fhir_base_url": "...", ... }
+ *   ]
+ * }
+ * Otherwise there is a single "default" tenant configured by the environment (the OPENMRS_* variables for OpenMRS)
+ * and, optionally, API_KEY. Each tenant's `emr`, or EMR_ADAPTER, selects its EMR; OpenMRS by default.
+ */
+export class TenantRegistry {
+    constructor(readonly tenants: Tenant[]) {
+        const hashes = tenants.flatMap(t => t.apiKeyHashes);
+        if (new Set(hashes).size !== hashes.length) throw new Error('The same API key is configured more than once.');
+    }
+
+    static fromEnv(env: NodeJS.ProcessEnv = process.env): TenantRegistry {
+        if (!env.TENANTS_PATH) {
+            const emr = emrAdapter(env.EMR_ADAPTER || DEFAULT_EMR);
+            const settings: TenantSettings = {};
+            emr.requiredSettings.forEach(setting => settings[setting] = env[setting.toUpperCase()]);
+
+            const missing = emr.requiredSettings.map(s => s.toUpperCase()).filter(name => !env[name]);
+            if (missing.length > 0) {
+                throw new Error(
+                    `Missing required EMR environment variables. Please check your .env file. Missing: ${missing.join(', ')}`
+                );
+            }
+            return new TenantRegistry([buildTenant({ id: 'default', name: 'Default', api_keys: env.API_KEY ? [env.API_KEY] : [], ...settings }, env)]);
+        }
+
+        const file = JSON.parse(fs.readFileSync(env.TENANTS_PATH, 'utf8'));
+        if (!Array.isArray(file.tenants) || file.tenants.length === 0) {
+            throw new Error(`${env.TENANTS_PATH} must have a non-empty "tenants" list.`);
+        }
+
+        const tenants: Tenant[] = file.tenants.map((settings: TenantSettings) => buildTenant(settings, env));
+        const ids = tenants.map(t => t.id);
+        const duplicate = ids.find((id, index) => ids.indexOf(id) !== index);
+        if (duplicate) throw new Error(`Tenant id '${duplicate}' is used more than once in ${env.TENANTS_PATH}.`);
+
+        console.log(`Loaded ${tenants.length} tenants from ${env.TENANTS_PATH}.`);
+        return new TenantRegistry(tenants);
+    }
+
+    get(id: string): Tenant | undefined {
+        return this.tenants.find(t => t.id === id);
+    }
+
+    /**
+     * The tenant whose shared key this is. Every configured key is compared, in constant time.
+     */
+    forSharedApiKey(apiKey: string): Tenant | undefined {
+        const hash = hashApiKey(apiKey);
+        let found: Tenant | undefined;
+        for (const tenant of this.tenants) {
+            for (const keyHash of tenant.apiKeyHashes) {
+                if (isSameHash(keyHash, hash)) found = tenant;
+            }
+        }
+        return found;
+    }
+}
+
+/**
+ * @private
+ */
+function emrAdapter(emr: string): EmrAdapterDefinition<unknown> {
+    const adapter = EMR_ADAPTERS[emr];
+    if (!adapter) throw new Error(`Unknown EMR '${emr}'. Expected one of: ${Object.keys(EMR_ADAPTERS).join(', ')}`);
+    return adapter;
+}
+
+/**
+ * Checks a tenant's settings and turns them into its EMR configuration.
+ * @private
+ */
+function buildTenant(settings: TenantSettings, env: NodeJS.ProcessEnv): Tenant {
+    const id = settings.id;
+    if (typeof id !== 'string' || !/^[a-z0-9_-]+$/i.test(id)) {
+        throw new Error(`Every tenant needs an "id" of letters, digits, '-' or '_' (got '${id}').`);
+    }
+
+    const emr = emrAdapter(settings.emr || env.EMR_ADAPTER || DEFAULT_EMR);
+
+    const known = ['id', 'name', 'emr', 'api_keys', ...emr.requiredSettings, ...emr.optionalSettings, ...emr.fileOnlySettings];
+    const unknown = Object.keys(settings).filter(setting => !known.includes(setting));
+    if (unknown.length > 0) throw new Error(`Tenant '${id}' has unknown settings: ${unknown.join(', ')}`);
+
+    const missing = emr.requiredSettings.filter(setting => !settings[setting]);
+    if (missing.length > 0) throw new Error(`Tenant '${id}' is missing: ${missing.join(', ')}`);
+
+    const apiKeys = settings.api_keys || [];
+    if (!Array.isArray(apiKeys) || apiKeys.some(k => typeof k !== 'string' || !k)) {
+        throw new Error(`"api_keys" of tenant '${id}' must be a list of keys.`);
+    }
+
+    // A tenant's own value wins; the environment supplies site-wide defaults
+    const resolved: TenantSettings = { ...settings };
+    emr.optionalSettings.forEach(setting => resolved[setting] = settings[setting] ?? env[setting.toUpperCase()]);
+
+    return new Tenant(id, settings.name || id, apiKeys.map(hashApiKey), emr, emr.configure(id, resolved));
+}
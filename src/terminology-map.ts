@@ -0,0 +1,102 @@
+import fs from 'fs';
+
+/**
+ * The sections of the mapping file, one per kind of free-text value Mercurie sends.
+ */
+export const TERMINOLOGY_SECTIONS = ['dose_units', 'routes', 'frequencies', 'duration_units', 'dispense_units', 'diagnoses', 'lab_tests', 'specimens', 'allergens', 'reactions'] as const;
+
+export type TerminologySection = typeof TERMINOLOGY_SECTIONS[number];
+
+type TerminologyMapFile = {
+    [section in TerminologySection]?: { [text: string]: string };
+};
+
+// A concept (or order frequency) UUID, or a concept reference such as "CIEL:1513"
+const TARGET_PATTERN = /^([0-9a-zA-Z-]{36}|[^:\s]+:[^:\s]+)$/;
+
+/**
+ * A site-maintained JSON file mapping the values Mercurie sends (e.g. "Tablet", "Once daily")
+ * to concept UUIDs or references like "CIEL:1513". It is consulted before any live concept search
+ * and reloaded whenever the file changes.
+ *
+ * Example:
+ * {
+ *   "dose_units": { "Tablet": "1513AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA" },
+ *   "frequencies": { "Once daily": "CIEL:160862" },
+ *   "diagnoses": { "High blood pressure": "CIEL:117399" }
+ * }
+ */
+export class TerminologyMap {
+    private sections = new Map<TerminologySection, Map<string, string>>();
+
+    constructor(private readonly filePath: string) {
+        this.sections = parseTerminologyMap(filePath);
+        console.log(`Loaded terminology map from ${filePath}.`);
+    }
+
+    /**
+     * The mapped target for a value, if the site has mapped it.
+     */
+    lookup(section: TerminologySection, text: string): string | undefined {
+        return this.sections.get(section)?.get(normalizeKey(text));
+    }
+
+    /**
+     * All mappings, for validation against the server.
+     */
+    entries(): { section: TerminologySection, text: string, target: string }[] {
+        return [...this.sections.entries()].flatMap(([section, mappings]) =>
+            [...mappings.entries()].map(([text, target]) => ({ section, text, target }))
+        );
+    }
+
+    /**
+     * Reloads the file whenever it changes. A file that fails to parse is reported and the
+     * previous mappings are kept.
+     */
+    watch(onReload?: () => void) {
+        fs.watchFile(this.filePath, { interval: 2000 }, (current, previous) => {
+            if (current.mtimeMs === previous.mtimeMs) return;
+            try {
+                this.sections = parseTerminologyMap(this.filePath);
+                console.log(`Reloaded terminology map from ${this.filePath}.`);
+                onReload?.();
+            } catch (error: any) {
+                console.error(`Could not reload terminology map, keeping the previous one: ${error.message}`);
+            }
+        });
+    }
+}
+
+/**
+ * Reads and checks the shape of the mapping file.
+ * @private
+ */
+function parseTerminologyMap(filePath: string): Map<TerminologySection, Map<string, string>> {
+    const file: TerminologyMapFile = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    const sections = new Map<TerminologySection, Map<string, string>>();
+
+    for (const [section, mappings] of Object.entries(file)) {
+        if (!TERMINOLOGY_SECTIONS.includes(section as TerminologySection)) {
+            throw new Error(`Unknown section '${section}' in ${filePath}. Expected one of: ${TERMINOLOGY_SECTIONS.join(', ')}`);
+        }
+        if (typeof mappings !== 'object' || mappings === null || Array.isArray(mappings)) {
+            throw new Error(`Section '${section}' in ${filePath} must be an object of "value": "target" pairs.`);
+        }
+
+        const entries = new Map<string, string>();
+        for (const [text, target] of Object.entries(mappings)) {
+            if (typeof target !== 'string' || !TARGET_PATTERN.test(target.trim())) {
+                throw new Error(`Invalid target for '${text}' in section '${section}' of ${filePath}: expected a UUID or "SOURCE:CODE".`);
+            }
+            entries.set(normalizeKey(text), target.trim());
+        }
+        sections.set(section as TerminologySection, entries);
+    }
+
+    return sections;
+}
+
+function normalizeKey(text: string): string {
+    return (text || '').trim().toLowerCase().replace(/\s+/g, ' ');
+}
@@ -0,0 +1,132 @@
+/**
+ * A vital sign as recorded in OpenMRS: its CIEL concept, the unit it is stored in
+ * and the range of values that are physiologically plausible in that unit.
+ */
+export type VitalSign = {
+    key: string;
+    ciel: string;
+    display: string;
+    unit: string;
+    ucum: string;
+    min: number;
+    max: number;
+    // Other accepted units, with the conversion to `unit`
+    conversions: { [unit: string]: (value: number) => number };
+};
+
+/**
+ * A validated vital sign value, in the unit OpenMRS stores it in.
+ */
+export type VitalMeasurement = {
+    sign: VitalSign;
+    value: number;
+};
+
+/**
+ * Thrown when the Vitals section has values that are not numbers, have an unknown unit or
+ * are outside the plausible range.
+ */
+export class VitalsValidationError extends Error {
+    constructor(public readonly problems: string[]) {
+        super(`Invalid vital signs: ${problems.join('; ')}`);
+        this.name = 'VitalsValidationError';
+    }
+}
+
+const same = (value: number) => value;
+
+// Keyed by the field names of the "Vitals" section in the Mercurie template
+export const VITAL_SIGNS: VitalSign[] = [
+    {
+        key: 'BP Systolic', ciel: '5085', display: 'Systolic blood pressure',
+        unit: 'mmHg', ucum: 'mm[Hg]', min: 40, max: 300,
+        conversions: { 'mmhg': same, 'mm hg': same },
+    },
+    {
+        key: 'BP Diastolic', ciel: '5086', display: 'Diastolic blood pressure',
+        unit: 'mmHg', ucum: 'mm[Hg]', min: 20, max: 200,
+        conversions: { 'mmhg': same, 'mm hg': same },
+    },
+    {
+        key: 'Pulse', ciel: '5087', display: 'Pulse',
+        unit: 'beats/min', ucum: '/min', min: 20, max: 250,
+        conversions: { 'bpm': same, '/min': same, 'beats/min': same, 'beats per minute': same },
+    },
+    {
+        key: 'Temperature', ciel: '5088', display: 'Temperature (C)',
+        unit: 'DEG C', ucum: 'Cel', min: 30, max: 45,
+        conversions: {
+            'c': same, '°c': same, 'deg c': same, 'celsius': same,
+            'f': v => (v - 32) * 5 / 9, '°f': v => (v - 32) * 5 / 9, 'deg f': v => (v - 32) * 5 / 9, 'fahrenheit': v => (v - 32) * 5 / 9,
+        },
+    },
+    {
+        key: 'Respiratory Rate', ciel: '5242', display: 'Respiratory rate',
+        unit: 'breaths/min', ucum: '/min', min: 4, max: 80,
+        conversions: { '/min': same, 'breaths/min': same, 'breaths per minute': same },
+    },
+    {
+        key: 'SpO2', ciel: '5092', display: 'Arterial blood oxygen saturation (pulse oximeter)',
+        unit: '%', ucum: '%', min: 50, max: 100,
+        conversions: { '%': same, 'percent': same },
+    },
+    {
+        key: 'Weight', ciel: '5089', display: 'Weight (kg)',
+        unit: 'kg', ucum: 'kg', min: 0.5, max: 350,
+        conversions: {
+            'kg': same, 'kgs': same, 'kilograms': same,
+            'lb': v => v * 0.45359237, 'lbs': v => v * 0.45359237, 'pounds': v => v * 0.45359237,
+        },
+    },
+    {
+        key: 'Height', ciel: '5090', display: 'Height (cm)',
+        unit: 'cm', ucum: 'cm', min: 20, max: 250,
+        conversions: { 'cm': same, 'm': v => v * 100, 'in': v => v * 2.54, 'inches': v => v * 2.54 },
+    },
+];
+
+/**
+ * Validates the "Vitals" section of a note. Values can be numbers, or strings with an optional
+ * unit such as "98.6 F" or "154 lbs"; they are converted to the unit OpenMRS stores.
+ * Blank values are skipped. All problems are collected before throwing.
+ */
+export function parseVitals(vitals: { [key: string]: any } | undefined): VitalMeasurement[] {
+    if (!vitals) return [];
+
+    const measurements: VitalMeasurement[] = [];
+    const problems: string[] = [];
+
+    const known = new Set(VITAL_SIGNS.map(s => s.key));
+    Object.keys(vitals)
+        .filter(key => !known.has(key))
+        .forEach(key => problems.push(`'${key}' is not a recognised vital sign (expected one of: ${[...known].join(', ')})`));
+
+    for (const sign of VITAL_SIGNS) {
+        const raw = vitals[sign.key];
+        if (raw === undefined || raw === null || String(raw).trim() === '') continue;
+
+        const match = String(raw).trim().match(/^(-?\d+(?:\.\d+)?)\s*(.*)$/);
+        if (!match) {
+            problems.push(`${sign.key} '${raw}' is not a number`);
+            continue;
+        }
+
+        const unit = match[2].trim().toLowerCase();
+        const convert = unit ? sign.conversions[unit] : same;
+        if (!convert) {
+            problems.push(`${sign.key} unit '${match[2]}' is not supported (use ${sign.unit})`);
+            continue;
+        }
+
+        const value = Math.round(convert(Number(match[1])) * 10) / 10;
+        if (value < sign.min || value > sign.max) {
+            problems.push(`${sign.key} ${value} ${sign.unit} is outside the plausible range ${sign.min}-${sign.max} ${sign.unit}`);
+            continue;
+        }
+
+        measurements.push({ sign, value });
+    }
+
+    if (problems.length > 0) throw new VitalsValidationError(problems);
+    return measurements;
+}
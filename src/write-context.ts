@@ -0,0 +1,90 @@
+import fs from 'fs';
+
+/**
+ * Who wrote a note, where and in what kind of visit. Every encounter, order and
+ * observation of a POST /notes request is recorded against these.
+ */
+export type WriteContext = {
+    provider: string;
+    location: string;
+    visitType: string;
+};
+
+/**
+ * What a request says about its context, before fallbacks are applied.
+ */
+export type WriteContextRequest = {
+    provider?: string;
+    location?: string;
+    visitType?: string;
+    // The Mercurie user, looked up in the provider map
+    user?: string;
+    // Set when `user` owns the caller's API key, so that they can only chart as their own provider
+    userOwnsKey?: boolean;
+};
+
+/**
+ * Thrown when a request names a provider, location, visit type or user the adapter cannot use.
+ */
+export class WriteContextError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'WriteContextError';
+    }
+}
+
+type ProviderMapEntry = { provider?: string, location?: string, visit_type?: string };
+
+/**
+ * A site-maintained JSON file mapping Mercurie users to their OpenMRS provider and,
+ * optionally, the location and visit type they usually work in.
+ *
+ * Example:
+ * {
+ *   "amina@clinic.example": { "provider": "<provider uuid>", "location": "<location uuid>", "visit_type": "OPD Visit" }
+ * }
+ */
+export class ProviderMap {
+    private entries = new Map<string, ProviderMapEntry>();
+
+    constructor(filePath: string) {
+        const file = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+        for (const [user, entry] of Object.entries(file)) {
+            if (typeof entry !== 'object' || entry === null || Array.isArray(entry)) {
+                throw new Error(`Entry for '${user}' in ${filePath} must be an object with "provider", "location" and/or "visit_type".`);
+            }
+            this.entries.set(user.trim().toLowerCase(), entry as ProviderMapEntry);
+        }
+        console.log(`Loaded ${this.entries.size} provider mappings from ${filePath}.`);
+    }
+
+    lookup(user: string): ProviderMapEntry | undefined {
+        return this.entries.get(user.trim().toLowerCase());
+    }
+}
+
+/**
+ * Picks each value from the request first, then the user's mapping, then the defaults.
+ * A user that is named but not mapped is an error rather than silently charting as the default provider.
+ * The owner of the caller's key must be mapped to a provider, and can only chart as that provider.
+ */
+export function pickWriteContext(request: WriteContextRequest, providerMap: ProviderMap | undefined, defaults: WriteContext): WriteContext {
+    let mapped: ProviderMapEntry = {};
+    if (request.user) {
+        const entry = providerMap?.lookup(request.user);
+        if (!entry) throw new WriteContextError(`Mercurie user '${request.user}' is not mapped to an OpenMRS provider.`);
+        mapped = entry;
+    }
+    if (request.userOwnsKey && !mapped.provider) {
+        throw new WriteContextError(`Mercurie user '${request.user}' has no OpenMRS provider in the provider map.`);
+    }
+    if (request.userOwnsKey && request.provider && request.provider !== mapped.provider) {
+        throw new WriteContextError(`Mercurie user '${request.user}' can only chart as their own provider, not '${request.provider}'.`);
+    }
+
+    return {
+        provider: request.provider || mapped.provider || defaults.provider,
+        location: request.location || mapped.location || defaults.location,
+        visitType: request.visitType || mapped.visit_type || defaults.visitType,
+    };
+}